@@ -2,7 +2,10 @@ import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
 import Home from "@/pages/home";
 import Food from "@/pages/food";
 import Workout from "@/pages/workout";
@@ -12,11 +15,12 @@ import Settings from "@/pages/settings";
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/food" component={Food} />
-      <Route path="/workout" component={Workout} />
-      <Route path="/progress" component={Progress} />
-      <Route path="/settings" component={Settings} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/food" component={Food} />
+      <ProtectedRoute path="/workout" component={Workout} />
+      <ProtectedRoute path="/progress" component={Progress} />
+      <ProtectedRoute path="/settings" component={Settings} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -25,8 +29,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
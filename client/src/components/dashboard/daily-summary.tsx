@@ -1,9 +1,18 @@
 import { RadialProgress } from "@/components/ui/radial-progress";
-import { type DailyProgress } from "@shared/schema";
+import { type DailyProgress, type DayCopyKind, type CopiedDay } from "@shared/schema";
+import { toDateKey, addDaysToKey } from "@shared/dates";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, Copy, Loader2 } from "lucide-react";
 
 interface DailySummaryProps {
   dailyProgress?: DailyProgress;
@@ -22,6 +31,58 @@ export default function DailySummary({
   onPrevDay, 
   onNextDay 
 }: DailySummaryProps) {
+  const { toast } = useToast();
+  const [isCopyOpen, setIsCopyOpen] = useState(false);
+  const [copyFrom, setCopyFrom] = useState("");
+  const [copyInclude, setCopyInclude] = useState<DayCopyKind[]>(["meals", "workouts"]);
+  const dateKey = toDateKey(date);
+  
+  // Copy a previous day onto the day being viewed, defaulting to the day before
+  const handleCopyOpenChange = (open: boolean) => {
+    if (open) {
+      setCopyFrom(addDaysToKey(dateKey, -1));
+    }
+    setIsCopyOpen(open);
+  };
+  
+  const toggleCopyKind = (kind: DayCopyKind, checked: boolean) => {
+    setCopyInclude((current) =>
+      checked ? Array.from(new Set([...current, kind])) : current.filter((k) => k !== kind)
+    );
+  };
+  
+  const copyDayMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/days/copy", {
+        from: copyFrom,
+        to: dateKey,
+        include: copyInclude,
+      });
+      return (await res.json()) as CopiedDay;
+    },
+    onSuccess: (copied) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/meals?date=${dateKey}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/workouts?date=${dateKey}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?date=${dateKey}`] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/daily-progress/range"),
+      });
+      
+      toast({
+        title: "Day copied",
+        description: `Added ${copied.meals.length} meal(s) and ${copied.workouts.length} workout(s).`,
+      });
+      setIsCopyOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to copy day",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   // Default values for progress
   const caloriesConsumed = dailyProgress?.caloriesConsumed || 0;
   const calorieGoal = 2000;
@@ -47,6 +108,15 @@ export default function DailySummary({
   const sugarGoal = 50;
   const sugarPercentage = Math.min(100, Math.round((sugarConsumed / sugarGoal) * 100));
   
+  // Fiber and sodium have no user goal yet, so use the FDA daily values
+  const fiberConsumed = dailyProgress?.fiberConsumed || 0;
+  const fiberGoal = 28;
+  const fiberPercentage = Math.min(100, Math.round((fiberConsumed / fiberGoal) * 100));
+  
+  const sodiumConsumed = dailyProgress?.sodiumConsumed || 0;
+  const sodiumLimit = 2300; // mg
+  const sodiumPercentage = Math.min(100, Math.round((sodiumConsumed / sodiumLimit) * 100));
+  
   return (
     <section className="px-4 py-4">
       <div className="flex justify-between items-center mb-4">
@@ -61,6 +131,50 @@ export default function DailySummary({
             {formattedDate.split(',')[1]}
           </div>
           <div className="flex items-center gap-2">
+            <Popover open={isCopyOpen} onOpenChange={handleCopyOpenChange}>
+              <PopoverTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 rounded-full bg-gray-200 hover:bg-gray-300"
+                  title="Copy another day here"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-64 space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="copy-from">Copy from</Label>
+                  <Input
+                    id="copy-from"
+                    type="date"
+                    value={copyFrom}
+                    onChange={(e) => setCopyFrom(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-4">
+                  {(["meals", "workouts"] as const).map((kind) => (
+                    <div key={kind} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`copy-${kind}`}
+                        checked={copyInclude.includes(kind)}
+                        onCheckedChange={(checked) => toggleCopyKind(kind, checked === true)}
+                      />
+                      <Label htmlFor={`copy-${kind}`} className="capitalize">{kind}</Label>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  className="w-full"
+                  size="sm"
+                  onClick={() => copyDayMutation.mutate()}
+                  disabled={!copyFrom || copyFrom === dateKey || copyInclude.length === 0 || copyDayMutation.isPending}
+                >
+                  {copyDayMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Copy to this day
+                </Button>
+              </PopoverContent>
+            </Popover>
             <Button
               size="icon"
               variant="ghost"
@@ -148,6 +262,8 @@ export default function DailySummary({
               <Skeleton className="h-6" />
               <Skeleton className="h-6" />
               <Skeleton className="h-6" />
+              <Skeleton className="h-6" />
+              <Skeleton className="h-6" />
             </div>
           ) : (
             <>
@@ -192,6 +308,34 @@ export default function DailySummary({
                   />
                 </div>
               </div>
+              
+              {/* Fiber Progress Bar */}
+              <div className="mt-2">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-xs font-medium">Fiber</span>
+                  <span className="text-xs text-gray-500">{fiberConsumed}g / {fiberGoal}g</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div 
+                    className={cn("h-2 rounded-full", "bg-green-500")}
+                    style={{ width: `${fiberPercentage}%` }}
+                  />
+                </div>
+              </div>
+              
+              {/* Sodium Progress Bar */}
+              <div className="mt-2">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-xs font-medium">Sodium</span>
+                  <span className="text-xs text-gray-500">{sodiumConsumed.toLocaleString()}mg / {sodiumLimit.toLocaleString()}mg</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div 
+                    className={cn("h-2 rounded-full", "bg-slate-500")}
+                    style={{ width: `${sodiumPercentage}%` }}
+                  />
+                </div>
+              </div>
             </>
           )}
         </div>
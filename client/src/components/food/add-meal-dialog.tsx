@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { 
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { 
   Select,
   SelectContent,
@@ -37,24 +38,64 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, useFieldArray } from "react-hook-form";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Trash2, Search, Loader2, Barcode, Camera } from "lucide-react";
+import { Plus, Trash2, Search, Loader2, Barcode, Camera, Bookmark, PenLine, X } from "lucide-react";
 import { format } from "date-fns";
-import { type FoodItem } from "@shared/schema";
+import { dateKeySchema, toDateKey } from "@shared/dates";
+import { type BarcodeProduct, type FoodItem, type Meal, type MealItem, type MealTemplate, type Recipe } from "@shared/schema";
+import { recipeToMealItem } from "@shared/recipes";
+import { type RecentFoods } from "@shared/recent-foods";
+import { type QuickLogDraft } from "@shared/quick-log";
+import { isValidGtin } from "@shared/gtin";
+import {
+  fdaDataTypes,
+  fdaDataTypeLabels,
+  fdaSearchSorts,
+  fdaSearchSortLabels,
+  type FdaDataType,
+  type FdaSearchSort
+} from "@shared/fda-search";
+import {
+  quantityUnits,
+  quantityUnitLabels,
+  foodPortionSchema,
+  availableUnits,
+  defaultQuantity,
+  quantityToGrams,
+  scaleNutrients,
+  servingSizeToGrams,
+  parseCupGrams,
+  foodItemPortion,
+  type FoodPortion,
+  type NutrientValues,
+  type QuantityUnit,
+} from "@shared/units";
 import BarcodeScanner from "@/components/food/barcode-scanner";
-import { getFdaApi } from "@/services/fda-api";
+import BarcodeProductDialog from "@/components/food/barcode-product-dialog";
+import { getFdaApi, getSearchNutrients, type FdaSearchOptions } from "@/services/fda-api";
+import { isStaticEnvironment } from "@/services/localStorage";
 
 // Form schema
 const mealItemSchema = z.object({
   id: z.number().optional(),
   name: z.string().min(1, "Name is required"),
   calories: z.number().min(0, "Calories must be positive"),
-  protein: z.number().min(0, "Protein must be positive").optional()
+  protein: z.number().min(0, "Protein must be positive").optional(),
+  carbs: z.number().min(0).optional(),
+  fat: z.number().min(0).optional(),
+  sugar: z.number().min(0).optional(),
+  fiber: z.number().min(0).optional(),
+  sodium: z.number().min(0).optional(),
+  amount: z.number().positive("Quantity must be positive").optional(),
+  unit: z.enum(quantityUnits).optional(),
+  grams: z.number().optional(),
+  portion: foodPortionSchema.optional(),
+  recipeId: z.number().optional(),
 });
 
 const mealFormSchema = z.object({
   userId: z.number(),
   title: z.string().min(1, "Title is required"),
-  date: z.date(),
+  date: dateKeySchema,
   time: z.string().min(1, "Time is required"),
   items: z.array(mealItemSchema).min(1, "Add at least one food item"),
   ingredientQuality: z.number().min(1).max(4),
@@ -62,93 +103,301 @@ const mealFormSchema = z.object({
 });
 
 type MealFormValues = z.infer<typeof mealFormSchema>;
+type MealFormItem = MealFormValues["items"][number];
+
+// Search results keep the reference nutrients so the quantity can be scaled later
+type FoodSearchResult = FoodItem & { portion: FoodPortion; brandOwner?: string };
+
+type FdaSearchFilters = Required<Pick<FdaSearchOptions, "dataTypes" | "sort">> & Pick<FdaSearchOptions, "brandOwner">;
+
+const FDA_SEARCH_PAGE_SIZE = 20;
+
+// Describe an FDA (or scanner) food's nutrients and serving size as a portion
+function createPortion(
+  nutrients: Partial<NutrientValues>,
+  per: FoodPortion["per"],
+  servingSize?: number,
+  servingSizeUnit?: string,
+  householdServing?: string,
+): FoodPortion {
+  const servingGrams = servingSizeToGrams(servingSize, servingSizeUnit);
+  return {
+    nutrients: {
+      calories: nutrients.calories || 0,
+      protein: nutrients.protein || 0,
+      carbs: nutrients.carbs || 0,
+      fat: nutrients.fat || 0,
+      sugar: nutrients.sugar || 0,
+      fiber: nutrients.fiber || 0,
+      sodium: nutrients.sodium || 0,
+    },
+    per,
+    servingGrams,
+    servingLabel: householdServing || undefined,
+    cupGrams: parseCupGrams(householdServing, servingGrams, servingSizeUnit),
+  };
+}
+
+// A meal item holding the portion's nutrients scaled to the chosen quantity
+function createMealItem(
+  id: number | undefined,
+  name: string,
+  portion: FoodPortion,
+  quantity: { amount: number; unit: QuantityUnit } = defaultQuantity(portion),
+): MealFormItem {
+  return {
+    id,
+    name,
+    ...scaleNutrients(portion, quantity.amount, quantity.unit),
+    amount: quantity.amount,
+    unit: quantity.unit,
+    grams: quantityToGrams(quantity.amount, quantity.unit, portion),
+    portion,
+  };
+}
 
 interface AddMealDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userId: number;
   date: Date;
+  // When set, the dialog edits this meal instead of logging a new one
+  meal?: Meal;
 }
 
-export default function AddMealDialog({ open, onOpenChange, userId, date }: AddMealDialogProps) {
+export default function AddMealDialog({ open, onOpenChange, userId, date, meal }: AddMealDialogProps) {
+  const isEditing = !!meal;
   const [searchTerm, setSearchTerm] = useState("");
   const [showScanner, setShowScanner] = useState(false);
   const [scannerTab, setScannerTab] = useState<string>("search");
   const [isProcessingBarcode, setIsProcessingBarcode] = useState(false);
+  // The barcode product dialog registers unknown barcodes and corrects registered ones
+  const [productDialogGtin, setProductDialogGtin] = useState<string | null>(null);
+  const [scannedProduct, setScannedProduct] = useState<BarcodeProduct | null>(null);
   const { toast } = useToast();
   
-  // State for FDA API search results and loading state
-  const [fdaSearchResults, setFdaSearchResults] = useState<FoodItem[]>([]);
+  // Free-text description and the drafts parsed from it, waiting for confirmation
+  const [quickLogText, setQuickLogText] = useState("");
+  const [quickLogDrafts, setQuickLogDrafts] = useState<QuickLogDraft[]>([]);
+  
+  // State for FDA API search results and loading state. Results load a page
+  // at a time; scrolling to the end of the list loads the next one.
+  const [fdaSearchResults, setFdaSearchResults] = useState<FoodSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [fdaPages, setFdaPages] = useState({ current: 0, total: 0 });
+  const [fdaFilters, setFdaFilters] = useState<FdaSearchFilters>({ dataTypes: [], sort: "relevance" });
+  // Searches run as the user types; only the latest one may show its results
+  const latestFdaSearch = useRef(0);
   
   // Using only FDA search results
   const filteredFoodItems = fdaSearchResults;
   
-  // Form setup
-  const form = useForm<MealFormValues>({
-    resolver: zodResolver(mealFormSchema),
-    defaultValues: {
+  // The user's own foods and recipes are matched by name and listed above FDA results
+  const { data: customFoods = [] } = useQuery<FoodItem[]>({
+    queryKey: ["/api/food-items"],
+    enabled: open,
+  });
+  const { data: recipes = [] } = useQuery<Recipe[]>({
+    queryKey: ["/api/recipes"],
+    enabled: open,
+  });
+  const { data: recentFoods } = useQuery<RecentFoods>({
+    queryKey: ["/api/foods/recent"],
+    enabled: open,
+  });
+  const normalizedTerm = searchTerm.trim().toLowerCase();
+  const matchingFoods = normalizedTerm
+    ? customFoods.filter((food) => food.name.toLowerCase().includes(normalizedTerm))
+    : [];
+  const matchingRecipes = normalizedTerm
+    ? recipes.filter((recipe) => recipe.name.toLowerCase().includes(normalizedTerm))
+    : [];
+  
+  // Blank form for a new meal, or the existing meal's values when editing
+  const getDefaultValues = (): MealFormValues => {
+    if (meal) {
+      return {
+        userId,
+        title: meal.title,
+        date: meal.date,
+        time: meal.time,
+        items: ((meal.items as MealItem[]) || []).map((item) => ({
+          name: item.name,
+          calories: item.calories,
+          protein: item.protein,
+          carbs: item.carbs,
+          fat: item.fat,
+          sugar: item.sugar,
+          fiber: item.fiber,
+          sodium: item.sodium,
+          amount: item.amount,
+          unit: item.unit,
+          grams: item.grams,
+          portion: item.portion,
+          recipeId: item.recipeId,
+        })),
+        ingredientQuality: meal.ingredientQuality,
+        qualityNotes: meal.qualityNotes ?? "",
+      };
+    }
+    
+    return {
       userId,
       title: "Breakfast",
-      date,
+      date: toDateKey(date),
       time: format(new Date(), "h:mm a"),
       items: [],
       ingredientQuality: 4,
       qualityNotes: "",
-    },
+    };
+  };
+  
+  // Form setup
+  const form = useForm<MealFormValues>({
+    resolver: zodResolver(mealFormSchema),
+    defaultValues: getDefaultValues(),
   });
   
+  // Reload the meal being edited each time the dialog opens
+  useEffect(() => {
+    if (open && meal) {
+      form.reset(getDefaultValues());
+    }
+  }, [open, meal]);
+  
   // Setup field array for food items
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, update } = useFieldArray({
     control: form.control,
     name: "items",
   });
   
-  // Add meal mutation
+  // Add (or update) meal mutation
   const addMealMutation = useMutation({
     mutationFn: async (values: MealFormValues) => {
-      // Calculate total calories and protein from items
+      // Calculate meal totals from items
+      const sumOf = (key: "protein" | "carbs" | "fat" | "sugar" | "fiber" | "sodium") =>
+        values.items.reduce((sum, item) => sum + (item[key] || 0), 0);
       const totalCalories = values.items.reduce((sum, item) => sum + item.calories, 0);
-      const totalProtein = values.items.reduce((sum, item) => sum + (item.protein || 0), 0);
-      
-      // Ensure date is in the correct format (YYYY-MM-DD)
-      const formattedDate = new Date(values.date).toISOString().split('T')[0];
+      const totalProtein = sumOf("protein");
       
       const mealData = {
         ...values,
-        date: formattedDate,
         totalCalories,
         totalProtein,
+        totalCarbs: sumOf("carbs"),
+        totalFat: sumOf("fat"),
+        totalSugar: sumOf("sugar"),
+        totalFiber: sumOf("fiber"),
+        totalSodium: sumOf("sodium"),
       };
       
+      if (meal) {
+        // The owner comes from the session, so only send the editable fields
+        const { userId: _userId, ...updates } = mealData;
+        return await apiRequest("PATCH", `/api/meals/${meal.id}`, updates);
+      }
+      
       return await apiRequest("POST", "/api/meals", mealData);
     },
-    onSuccess: () => {
+    onSuccess: (_data, values) => {
       toast({
-        title: "Meal added",
-        description: "Your meal has been successfully logged.",
+        title: isEditing ? "Meal updated" : "Meal added",
+        description: isEditing
+          ? "Your changes have been saved."
+          : "Your meal has been successfully logged.",
+      });
+      
+      // Refresh the day the meal was on and the day it is on now (they differ if it moved)
+      const days = new Set([
+        meal ? meal.date : toDateKey(date),
+        values.date,
+      ]);
+      days.forEach((day) => {
+        queryClient.invalidateQueries({ queryKey: [`/api/meals?date=${day}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?date=${day}`] });
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/foods/recent"] });
       
       // Clear form and close dialog
-      form.reset({
-        userId,
-        title: "Breakfast",
-        date,
-        time: format(new Date(), "h:mm a"),
-        items: [],
-        ingredientQuality: 4,
-        qualityNotes: "",
+      if (!isEditing) {
+        form.reset(getDefaultValues());
+      }
+      
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: isEditing ? "Failed to update meal" : "Failed to add meal",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Saved templates, offered when logging a new meal
+  const { data: templates = [], isLoading: isLoadingTemplates } = useQuery<MealTemplate[]>({
+    queryKey: ["/api/meal-templates"],
+    enabled: open && !isEditing,
+  });
+  
+  // Log a template as a meal on the selected date, with its items and quality as saved
+  const logTemplateMutation = useMutation({
+    mutationFn: async (template: MealTemplate) => {
+      return await apiRequest("POST", `/api/meal-templates/${template.id}/log`, {
+        date: form.getValues("date"),
+        time: form.getValues("time"),
+      });
+    },
+    onSuccess: (_data, template) => {
+      toast({
+        title: "Meal added",
+        description: `${template.name} has been logged.`,
       });
       
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: [`/api/meals?userId=${userId}&date=${date.toISOString().split('T')[0]}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?userId=${userId}&date=${date.toISOString().split('T')[0]}`] });
+      const day = form.getValues("date");
+      queryClient.invalidateQueries({ queryKey: [`/api/meals?date=${day}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?date=${day}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/foods/recent"] });
       
       onOpenChange(false);
     },
     onError: (error) => {
       toast({
-        title: "Failed to add meal",
+        title: "Failed to log template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const parseQuickLogMutation = useMutation({
+    mutationFn: async (text: string): Promise<QuickLogDraft[]> => {
+      const res = await apiRequest("POST", "/api/quick-log/parse", { text });
+      return await res.json();
+    },
+    onSuccess: (drafts) => {
+      setQuickLogDrafts(drafts);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't read that description",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (template: MealTemplate) => {
+      return await apiRequest("DELETE", `/api/meal-templates/${template.id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meal-templates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete template",
         description: error.message,
         variant: "destructive",
       });
@@ -160,26 +409,80 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
     addMealMutation.mutate(values);
   }
   
-  // Add a food item to the meal
-  const handleAddFoodItem = (item: FoodItem) => {
-    append({
-      id: item.id,
-      name: item.name,
-      calories: item.calories,
-      protein: item.protein
+  // Add a food item to the meal, starting at one serving (or 100 g)
+  const handleAddFoodItem = (item: FoodSearchResult) => {
+    append(createMealItem(item.id, item.name, item.portion));
+    setSearchTerm("");
+  };
+  
+  // Custom foods are per serving, and can be weighed when they have a serving weight
+  const handleAddCustomFood = (food: FoodItem) => {
+    append(createMealItem(food.id, food.name, foodItemPortion(food)));
+    setSearchTerm("");
+  };
+  
+  // Re-add a previously logged item at the quantity it was last logged at
+  const handleQuickAdd = ({ name, calories, protein, carbs, fat, sugar, fiber, sodium, amount, unit, grams, portion, recipeId }: MealItem) => {
+    if (portion && amount !== undefined && unit) {
+      append({ ...createMealItem(undefined, name, portion, { amount, unit }), recipeId });
+    } else {
+      append({ name, calories, protein, carbs, fat, sugar, fiber, sodium, amount, unit, grams, portion, recipeId });
+    }
+  };
+  
+  // Add every matched draft to the meal; unmatched ones stay so they can be searched
+  const handleConfirmQuickLog = () => {
+    quickLogDrafts.forEach(({ item }) => {
+      if (item) handleQuickAdd(item);
     });
+    setQuickLogDrafts((drafts) => drafts.filter((draft) => !draft.item));
+    setQuickLogText("");
+  };
+  
+  // Look up a phrase the parser couldn't match in the regular search
+  const handleSearchDraft = (draft: QuickLogDraft) => {
+    setScannerTab("search");
+    setSearchTerm(draft.foodName);
+    handleFdaSearch(draft.foodName);
+    setQuickLogDrafts((drafts) => drafts.filter((other) => other !== draft));
+  };
+  
+  // Add one serving of a recipe; the quantity picker can then log any fraction of it
+  const handleAddRecipe = (recipe: Recipe) => {
+    append(recipeToMealItem(recipe, 1));
     setSearchTerm("");
   };
   
-  // Handle FDA API food search
-  const handleFdaSearch = async (query: string) => {
+  // Rescale an item's nutrients when its quantity or unit changes
+  const handleQuantityChange = (index: number, amount: number, unit: QuantityUnit) => {
+    const item = form.getValues(`items.${index}`);
+    if (!item.portion || !(amount > 0)) return;
+    update(index, {
+      ...createMealItem(item.id, item.name, item.portion, { amount, unit }),
+      recipeId: item.recipeId,
+    });
+  };
+  
+  // Handle FDA API food search. Page 1 starts a new search; later pages are
+  // appended to the results of the search they continue.
+  const handleFdaSearch = async (query: string, filters: FdaSearchFilters = fdaFilters, pageNumber = 1) => {
     if (query.trim().length < 3) {
+      latestFdaSearch.current++;
       setFdaSearchResults([]);
+      setFdaPages({ current: 0, total: 0 });
+      setIsSearching(false);
+      setIsLoadingMore(false);
       return;
     }
     
+    const searchId = pageNumber === 1 ? ++latestFdaSearch.current : latestFdaSearch.current;
+    
     try {
-      setIsSearching(true);
+      if (pageNumber === 1) {
+        setIsSearching(true);
+      } else {
+        setIsLoadingMore(true);
+      }
       
       // Use FDA API to search for food
       const fdaApi = getFdaApi();
@@ -190,51 +493,88 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
       }
       
       // Search FDA database
-      const result = await fdaApi.searchFoodByName(query);
+      const result = await fdaApi.searchFoodByName(query, FDA_SEARCH_PAGE_SIZE, { ...filters, pageNumber });
+      if (searchId !== latestFdaSearch.current) return;
       
       if (result && result.foods) {
         // Transform FDA results to FoodItem format
-        const fdaItems: FoodItem[] = result.foods.map((food: any) => {
-          // Extract nutrition data if available
-          const nutritionData = food.foodNutrients?.reduce((acc: any, item: any) => {
-            if (item.nutrientName === "Energy" && item.unitName === "KCAL") {
-              acc.calories = Math.round(item.value);
-            } else if (item.nutrientName === "Protein") {
-              acc.protein = Math.round(item.value);
-            } else if (item.nutrientName === "Total lipid (fat)") {
-              acc.fat = Math.round(item.value);
-            } else if (item.nutrientName === "Carbohydrate, by difference") {
-              acc.carbs = Math.round(item.value);
-            } else if (item.nutrientName === "Sugars, total including NLEA") {
-              acc.sugar = Math.round(item.value);
-            }
-            return acc;
-          }, { calories: 0, protein: 0, fat: 0, carbs: 0, sugar: 0 });
+        const fdaItems: FoodSearchResult[] = result.foods.map((food) => {
+          // Search results are per 100 g
+          const nutritionData = getSearchNutrients(food);
           
           return {
             id: food.fdcId || Date.now() + Math.random(),
-            name: food.description || food.brandName || "Food Item",
-            calories: nutritionData.calories || 0,
-            protein: nutritionData.protein || 0,
-            carbs: nutritionData.carbs || 0,
-            fat: nutritionData.fat || 0,
-            sugar: nutritionData.sugar || 0,
-            ingredientQuality: 4
+            userId: null,
+            name: food.name,
+            brandOwner: food.brandOwner,
+            servingGrams: food.serving?.grams ?? null,
+            calories: Math.round(nutritionData.calories || 0),
+            protein: Math.round(nutritionData.protein || 0),
+            carbs: Math.round(nutritionData.carbs || 0),
+            fat: Math.round(nutritionData.fat || 0),
+            sugar: Math.round(nutritionData.sugar || 0),
+            fiber: Math.round(nutritionData.fiber || 0),
+            sodium: Math.round(nutritionData.sodium || 0),
+            ingredientQuality: 4,
+            qualityNotes: null,
+            portion: createPortion(
+              nutritionData,
+              "100g",
+              food.serving?.size,
+              food.serving?.unit,
+              food.serving?.label
+            )
           };
         });
         
-        setFdaSearchResults(fdaItems);
-      } else {
+        // A food can move between pages as FDA's index changes; list it once
+        setFdaSearchResults((current) =>
+          pageNumber === 1
+            ? fdaItems
+            : [...current, ...fdaItems.filter((item) => !current.some((shown) => shown.id === item.id))]
+        );
+        setFdaPages({ current: result.currentPage, total: result.totalPages });
+      } else if (pageNumber === 1) {
         setFdaSearchResults([]);
+        setFdaPages({ current: 0, total: 0 });
       }
     } catch (error) {
       console.error("Error searching FDA database:", error);
-      setFdaSearchResults([]);
+      if (pageNumber === 1 && searchId === latestFdaSearch.current) {
+        setFdaSearchResults([]);
+        setFdaPages({ current: 0, total: 0 });
+      }
     } finally {
-      setIsSearching(false);
+      if (searchId === latestFdaSearch.current) {
+        setIsSearching(false);
+        setIsLoadingMore(false);
+      }
+    }
+  };
+  
+  // Load the next page once the results are scrolled near their end
+  const handleFdaResultsScroll = (list: HTMLElement) => {
+    const nearEnd = list.scrollTop + list.clientHeight >= list.scrollHeight - 40;
+    if (nearEnd && !isSearching && !isLoadingMore && fdaPages.current < fdaPages.total) {
+      handleFdaSearch(searchTerm, fdaFilters, fdaPages.current + 1);
     }
   };
   
+  // Changing a filter or the sort starts the search over
+  const updateFdaFilters = (changes: Partial<FdaSearchFilters>) => {
+    const filters = { ...fdaFilters, ...changes };
+    setFdaFilters(filters);
+    handleFdaSearch(searchTerm, filters);
+  };
+  
+  const toggleFdaDataType = (dataType: FdaDataType) => {
+    updateFdaFilters({
+      dataTypes: fdaFilters.dataTypes.includes(dataType)
+        ? fdaFilters.dataTypes.filter((type) => type !== dataType)
+        : [...fdaFilters.dataTypes, dataType],
+    });
+  };
+  
   // Handle barcode scan results
   const handleBarcodeScan = async (barcodeData: any) => {
     try {
@@ -272,19 +612,26 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
           carbs: nutrients.carbs || 0,
           fat: nutrients.fat || 0,
           sugar: nutrients.sugar || 0,
+          fiber: nutrients.fiber || 0,
+          sodium: nutrients.sodium || 0,
           ingredientQuality: ingredientQuality,
           qualityNotes: qualityNotes
         };
         
         console.log("Created food item from scanner data:", newFoodItem);
         
-        // Add food item to the meal
-        append({
-          id: newFoodItem.id,
-          name: newFoodItem.name,
-          calories: newFoodItem.calories,
-          protein: newFoodItem.protein
-        });
+        // Add food item to the meal, scaled to one serving where the label gives one
+        const portion = createPortion(
+          nutrients,
+          barcodeData.nutrientsPer === "serving" ? "serving" : "100g",
+          barcodeData.servingSize,
+          barcodeData.servingSizeUnit,
+          barcodeData.householdServingFullText
+        );
+        append(createMealItem(newFoodItem.id, newFoodItem.name, portion));
+        
+        // Keep registry products at hand so a wrong label can be corrected
+        setScannedProduct(barcodeData.barcodeProduct ?? null);
         
         // Update ingredient quality if it's lower than current
         const currentQuality = form.getValues("ingredientQuality");
@@ -309,37 +656,34 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
         
         // Make sure we're passing a string to the API
         const barcode = typeof barcodeData === 'string' ? barcodeData : barcodeData?.barcode || '';
+        if (!isValidGtin(barcode)) {
+          toast({
+            title: "Invalid Barcode",
+            description: "That barcode didn't scan cleanly. Please scan it again.",
+            variant: "destructive",
+          });
+          return;
+        }
         
         // Search for food by UPC barcode
         const result = await fdaApi.searchByUpc(barcode);
         console.log("FDA API Result in meal dialog:", result);
         
-        if (result && result.foods && result.foods.length > 0) {
+        if (result?.foods?.[0]?.barcodeProduct) {
+          addBarcodeProduct(result.foods[0].barcodeProduct);
+        } else if (result && result.foods && result.foods.length > 0) {
           const foodData = result.foods[0];
           console.log("Selected food item in meal dialog:", foodData);
           
-          // Extract nutrition data if available
-          const nutritionData = foodData.foodNutrients?.reduce((acc: any, item: any) => {
-            if (item.nutrientName === "Energy" && item.unitName === "KCAL") {
-              acc.calories = Math.round(item.value);
-            } else if (item.nutrientName === "Protein") {
-              acc.protein = Math.round(item.value);
-            } else if (item.nutrientName === "Total lipid (fat)") {
-              acc.fat = Math.round(item.value);
-            } else if (item.nutrientName === "Carbohydrate, by difference") {
-              acc.carbs = Math.round(item.value);
-            } else if (item.nutrientName === "Sugars, total including NLEA") {
-              acc.sugar = Math.round(item.value);
-            }
-            return acc;
-          }, { calories: 0, protein: 0, fat: 0, carbs: 0, sugar: 0 });
+          // Barcode results are per 100 g
+          const nutritionData = getSearchNutrients(foodData);
           
           // Get ingredient quality analysis if ingredients are available
           let ingredientQuality = 4; // Default to excellent
           let qualityNotes = "";
           
           if (foodData.ingredients) {
-            const analysis = fdaApi.analyzeIngredientQuality(foodData.ingredients, nutritionData);
+            const analysis = fdaApi.analyzeIngredientQuality(foodData.ingredients, foodData.per100g);
             ingredientQuality = analysis.score;
             qualityNotes = analysis.notes;
           }
@@ -347,25 +691,29 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
           // Create new food item
           const newFoodItem = {
             id: Date.now(), // Temporary ID for this session
-            name: foodData.description || foodData.brandName || "Scanned Food Item",
+            name: foodData.name,
             calories: nutritionData.calories || 0,
             protein: nutritionData.protein || 0,
             carbs: nutritionData.carbs || 0,
             fat: nutritionData.fat || 0,
             sugar: nutritionData.sugar || 0,
+            fiber: nutritionData.fiber || 0,
+            sodium: nutritionData.sodium || 0,
             ingredientQuality: ingredientQuality,
             qualityNotes: qualityNotes
           };
           
           console.log("Created food item from FDA API:", newFoodItem);
         
-          // Add food item to the meal
-          append({
-            id: newFoodItem.id,
-            name: newFoodItem.name,
-            calories: newFoodItem.calories,
-            protein: newFoodItem.protein
-          });
+          // Add food item to the meal (FDA nutrients are per 100 g)
+          const portion = createPortion(
+            nutritionData,
+            "100g",
+            foodData.serving?.size,
+            foodData.serving?.unit,
+            foodData.serving?.label
+          );
+          append(createMealItem(newFoodItem.id, newFoodItem.name, portion));
           
           // Update ingredient quality if it's lower than current
           const currentQuality = form.getValues("ingredientQuality");
@@ -382,11 +730,7 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
             description: `Added ${newFoodItem.name} to your meal.`,
           });
         } else {
-          toast({
-            title: "Product Not Found",
-            description: "No information found for this barcode. Try a different product or add manually.",
-            variant: "destructive",
-          });
+          handleBarcodeNotFound(barcode);
         }
       }
     } catch (error) {
@@ -401,6 +745,46 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
     }
   };
   
+  // Nobody has this barcode yet: ask for the label details. Registering a
+  // product needs the server, so static deployments can only add it by hand.
+  const handleBarcodeNotFound = (barcode: string) => {
+    setShowScanner(false);
+    setScannedProduct(null);
+    
+    if (isStaticEnvironment()) {
+      toast({
+        title: "Product Not Found",
+        description: "No information found for this barcode. Try adding the food manually.",
+      });
+      return;
+    }
+    
+    toast({
+      title: "Product Not Found",
+      description: "No information found for this barcode. Add it from the package label.",
+    });
+    setProductDialogGtin(barcode);
+  };
+  
+  // Add a registry product to the meal, one label serving
+  const addBarcodeProduct = (product: BarcodeProduct) => {
+    const portion = createPortion(
+      product,
+      "serving",
+      product.servingSize,
+      product.servingSizeUnit,
+      product.householdServing ?? undefined
+    );
+    append(createMealItem(Date.now(), product.name, portion));
+    setScannedProduct(product);
+    setShowScanner(false);
+    
+    toast({
+      title: "Food Item Added",
+      description: `Added ${product.name} to your meal.`,
+    });
+  };
+  
   // Toggle barcode scanner
   const toggleScanner = () => {
     setShowScanner(!showScanner);
@@ -411,12 +795,15 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
   const totalProtein = fields.reduce((sum, item) => sum + (item.protein || 0), 0);
   
   return (
+    <>
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add Meal</DialogTitle>
+          <DialogTitle>{isEditing ? "Edit Meal" : "Add Meal"}</DialogTitle>
           <DialogDescription>
-            Log your meal details and nutritional information.
+            {isEditing
+              ? "Update the items, time or quality of this meal."
+              : "Log your meal details and nutritional information."}
           </DialogDescription>
         </DialogHeader>
         
@@ -431,7 +818,7 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                     <FormLabel>Meal Type</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -467,6 +854,30 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
               />
             </div>
             
+            {isEditing && (
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        value={field.value}
+                        onChange={(e) => {
+                          if (e.target.value) {
+                            field.onChange(e.target.value);
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <FormLabel>Food Items</FormLabel>
@@ -485,13 +896,46 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                   </div>
                 ) : (
                   fields.map((item, index) => (
-                    <div key={item.id} className="flex items-center justify-between bg-gray-50 p-2 rounded">
-                      <div>
+                    <div key={item.id} className="flex items-center justify-between gap-2 bg-gray-50 p-2 rounded">
+                      <div className="min-w-0 flex-1">
                         <div className="font-medium text-sm">{item.name}</div>
                         <div className="text-xs text-gray-500">
                           {item.calories} cal | {item.protein}g protein
+                          {item.carbs !== undefined && ` | ${item.carbs}g carbs`}
+                          {item.fat !== undefined && ` | ${item.fat}g fat`}
                         </div>
+                        {item.portion?.servingLabel && item.unit === "serving" && (
+                          <div className="text-xs text-gray-400">1 serving = {item.portion.servingLabel}</div>
+                        )}
                       </div>
+                      {item.portion && item.amount !== undefined && item.unit && (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="h-8 w-20"
+                            defaultValue={item.amount}
+                            aria-label={`Quantity of ${item.name}`}
+                            onBlur={(e) => handleQuantityChange(index, Number(e.target.value), item.unit!)}
+                          />
+                          <Select
+                            value={item.unit}
+                            onValueChange={(unit) => handleQuantityChange(index, item.amount!, unit as QuantityUnit)}
+                          >
+                            <SelectTrigger className="h-8 w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {availableUnits(item.portion).map((unit) => (
+                                <SelectItem key={unit} value={unit}>
+                                  {quantityUnitLabels[unit]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
                       <Button 
                         type="button" 
                         variant="ghost" 
@@ -507,7 +951,7 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
             </div>
             
             <Tabs defaultValue="search" className="w-full" value={scannerTab} onValueChange={setScannerTab}>
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className={`grid w-full ${isEditing ? "grid-cols-3" : "grid-cols-4"}`}>
                 <TabsTrigger value="search" onClick={() => setShowScanner(false)}>
                   <Search className="mr-2 h-4 w-4" />
                   Search
@@ -516,6 +960,16 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                   <Barcode className="mr-2 h-4 w-4" />
                   Scan Barcode
                 </TabsTrigger>
+                <TabsTrigger value="describe" onClick={() => setShowScanner(false)}>
+                  <PenLine className="mr-2 h-4 w-4" />
+                  Describe
+                </TabsTrigger>
+                {!isEditing && (
+                  <TabsTrigger value="templates" onClick={() => setShowScanner(false)}>
+                    <Bookmark className="mr-2 h-4 w-4" />
+                    Templates
+                  </TabsTrigger>
+                )}
               </TabsList>
               
               <TabsContent value="search" className="space-y-2">
@@ -532,9 +986,117 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                   />
                 </div>
                 
+                {!searchTerm && recentFoods && recentFoods.recent.length > 0 && (
+                  <div className="space-y-2">
+                    {([
+                      ["Recent", recentFoods.recent],
+                      ["Frequent", recentFoods.frequent],
+                    ] as const).map(([label, items]) => (
+                      <div key={label}>
+                        <div className="text-xs font-medium text-gray-500 mb-1">{label}</div>
+                        <div className="flex flex-wrap gap-1">
+                          {items.map((item) => (
+                            <Button
+                              key={`${label}-${item.recipeId ?? ""}-${item.name}`}
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-7 rounded-full px-3 text-xs max-w-full"
+                              onClick={() => handleQuickAdd(item)}
+                            >
+                              <Plus className="mr-1 h-3 w-3 shrink-0" />
+                              <span className="truncate">{item.name}</span>
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
                 {searchTerm && (
-                  <Card className="max-h-[200px] overflow-y-auto">
+                  <div className="flex flex-wrap items-center gap-1">
+                    {fdaDataTypes.map((dataType) => (
+                      <Button
+                        key={dataType}
+                        type="button"
+                        variant={fdaFilters.dataTypes.includes(dataType) ? "default" : "outline"}
+                        size="sm"
+                        className="h-7 rounded-full px-3 text-xs"
+                        onClick={() => toggleFdaDataType(dataType)}
+                      >
+                        {fdaDataTypeLabels[dataType]}
+                      </Button>
+                    ))}
+                    {fdaFilters.brandOwner && (
+                      <Button
+                        type="button"
+                        variant="default"
+                        size="sm"
+                        className="h-7 rounded-full px-3 text-xs max-w-full"
+                        onClick={() => updateFdaFilters({ brandOwner: undefined })}
+                      >
+                        <span className="truncate">{fdaFilters.brandOwner}</span>
+                        <X className="ml-1 h-3 w-3 shrink-0" />
+                      </Button>
+                    )}
+                    <Select
+                      value={fdaFilters.sort}
+                      onValueChange={(sort) => updateFdaFilters({ sort: sort as FdaSearchSort })}
+                    >
+                      <SelectTrigger className="h-7 w-[120px] ml-auto text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fdaSearchSorts.map((sort) => (
+                          <SelectItem key={sort} value={sort}>{fdaSearchSortLabels[sort]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                
+                {searchTerm && (
+                  <Card
+                    className="max-h-[200px] overflow-y-auto"
+                    onScroll={(e) => handleFdaResultsScroll(e.currentTarget)}
+                  >
                     <CardContent className="p-2 space-y-1">
+                      {matchingFoods.map((food) => (
+                        <div
+                          key={`food-${food.id}`}
+                          className="flex justify-between items-center p-2 hover:bg-gray-50 rounded cursor-pointer"
+                          onClick={() => handleAddCustomFood(food)}
+                        >
+                          <div>
+                            <div className="font-medium text-sm">{food.name}</div>
+                            <div className="text-xs text-gray-500">
+                              My food | {food.calories} cal | {food.protein}g protein per serving
+                              {food.servingGrams && ` (${food.servingGrams}g)`}
+                            </div>
+                          </div>
+                          <Button variant="ghost" size="icon">
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      {matchingRecipes.map((recipe) => (
+                        <div
+                          key={`recipe-${recipe.id}`}
+                          className="flex justify-between items-center p-2 hover:bg-gray-50 rounded cursor-pointer"
+                          onClick={() => handleAddRecipe(recipe)}
+                        >
+                          <div>
+                            <div className="font-medium text-sm">{recipe.name}</div>
+                            <div className="text-xs text-gray-500">
+                              Recipe | {(recipe.perServing as NutrientValues).calories} cal | {(recipe.perServing as NutrientValues).protein}g protein per serving
+                            </div>
+                          </div>
+                          <Button variant="ghost" size="icon">
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
                       {isSearching ? (
                         <div className="flex justify-center items-center py-4">
                           <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
@@ -550,7 +1112,24 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                             <div>
                               <div className="font-medium text-sm">{item.name}</div>
                               <div className="text-xs text-gray-500">
-                                {item.calories} cal | {item.protein}g protein
+                                {item.brandOwner && (
+                                  <>
+                                    <button
+                                      type="button"
+                                      className="text-primary hover:underline"
+                                      title={`Only show ${item.brandOwner}`}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        updateFdaFilters({ brandOwner: item.brandOwner });
+                                      }}
+                                    >
+                                      {item.brandOwner}
+                                    </button>
+                                    {" | "}
+                                  </>
+                                )}
+                                {item.calories} cal | {item.protein}g protein per 100g
+                                {item.portion.servingLabel && ` | serving: ${item.portion.servingLabel}`}
                               </div>
                             </div>
                             <Button variant="ghost" size="icon">
@@ -558,11 +1137,17 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                             </Button>
                           </div>
                         ))
-                      ) : (
+                      ) : matchingFoods.length === 0 && matchingRecipes.length === 0 && (
                         <div className="text-center py-2 text-sm text-gray-500">
                           No matching food items found
                         </div>
                       )}
+                      {isLoadingMore && (
+                        <div className="flex justify-center items-center py-2">
+                          <Loader2 className="h-4 w-4 animate-spin text-primary mr-2" />
+                          <span className="text-xs">Loading more...</span>
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 )}
@@ -574,6 +1159,7 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                     <BarcodeScanner 
                       onScanSuccess={handleBarcodeScan} 
                       onClose={() => setShowScanner(false)} 
+                      onNotFound={handleBarcodeNotFound}
                     />
                     {isProcessingBarcode && (
                       <div className="absolute inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center rounded-md">
@@ -600,10 +1186,156 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                     </Button>
                   </div>
                 )}
+                {scannedProduct && (
+                  <div className="text-xs text-center">
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => setProductDialogGtin(scannedProduct.gtin)}
+                    >
+                      Label wrong? Edit {scannedProduct.name}
+                    </button>
+                  </div>
+                )}
                 <div className="text-xs text-muted-foreground text-center">
                   Barcode scanning uses the FDA database to retrieve nutritional information.
+                  Products it doesn't have can be added from their label for everyone to scan.
                 </div>
               </TabsContent>
+              
+              <TabsContent value="describe" className="space-y-2">
+                <Textarea
+                  placeholder="e.g. 2 eggs and a slice of toast"
+                  rows={2}
+                  value={quickLogText}
+                  onChange={(e) => setQuickLogText(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  className="w-full"
+                  onClick={() => parseQuickLogMutation.mutate(quickLogText)}
+                  disabled={!quickLogText.trim() || parseQuickLogMutation.isPending}
+                >
+                  {parseQuickLogMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Reading...
+                    </>
+                  ) : (
+                    "Find Foods"
+                  )}
+                </Button>
+                
+                {quickLogDrafts.length > 0 && (
+                  <Card className="max-h-[200px] overflow-y-auto">
+                    <CardContent className="p-2 space-y-1">
+                      {quickLogDrafts.map((draft, index) => (
+                        <div
+                          key={`${index}-${draft.text}`}
+                          className="flex justify-between items-center p-2 hover:bg-gray-50 rounded"
+                        >
+                          <div className="min-w-0">
+                            {draft.item ? (
+                              <>
+                                <div className="font-medium text-sm truncate">{draft.item.name}</div>
+                                <div className="text-xs text-gray-500">
+                                  "{draft.text}" | {draft.item.amount} {draft.item.unit && quantityUnitLabels[draft.item.unit]} | {draft.item.calories} cal
+                                </div>
+                              </>
+                            ) : (
+                              <>
+                                <div className="font-medium text-sm truncate">"{draft.text}"</div>
+                                <button
+                                  type="button"
+                                  className="text-xs text-primary hover:underline"
+                                  onClick={() => handleSearchDraft(draft)}
+                                >
+                                  No match in your foods. Search for "{draft.foodName}"
+                                </button>
+                              </>
+                            )}
+                          </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="shrink-0"
+                            onClick={() => setQuickLogDrafts((drafts) => drafts.filter((other) => other !== draft))}
+                          >
+                            <X className="h-4 w-4 text-gray-500" />
+                          </Button>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+                
+                {quickLogDrafts.some((draft) => draft.item) && (
+                  <Button type="button" className="w-full" onClick={handleConfirmQuickLog}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add {quickLogDrafts.filter((draft) => draft.item).length} to Meal
+                  </Button>
+                )}
+                
+                <div className="text-xs text-gray-500">
+                  Foods are matched against your own foods, recipes, foods you've logged before and FDA foods already looked up on the server.
+                </div>
+              </TabsContent>
+              
+              {!isEditing && (
+                <TabsContent value="templates" className="space-y-2">
+                  {isLoadingTemplates ? (
+                    <div className="flex justify-center items-center py-4">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                      <span className="text-sm">Loading templates...</span>
+                    </div>
+                  ) : templates.length > 0 ? (
+                    <Card className="max-h-[200px] overflow-y-auto">
+                      <CardContent className="p-2 space-y-1">
+                        {templates.map((template) => (
+                          <div
+                            key={template.id}
+                            className="flex justify-between items-center p-2 hover:bg-gray-50 rounded"
+                          >
+                            <div className="min-w-0">
+                              <div className="font-medium text-sm truncate">{template.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {template.title} | {template.totalCalories} cal | {template.totalProtein}g protein
+                              </div>
+                            </div>
+                            <div className="flex items-center shrink-0">
+                              <Button
+                                type="button"
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => logTemplateMutation.mutate(template)}
+                                disabled={logTemplateMutation.isPending}
+                              >
+                                Log
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="text-gray-400 hover:text-red-500"
+                                onClick={() => deleteTemplateMutation.mutate(template)}
+                                disabled={deleteTemplateMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <div className="text-center py-2 text-sm text-gray-500">
+                      No templates yet. Use "Save as Template" on a logged meal to add one.
+                    </div>
+                  )}
+                </TabsContent>
+              )}
             </Tabs>
             
             <FormField
@@ -614,7 +1346,7 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                   <FormLabel>Ingredient Quality</FormLabel>
                   <Select 
                     onValueChange={(value) => field.onChange(parseInt(value))} 
-                    defaultValue={field.value.toString()}
+                    value={field.value.toString()}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -665,10 +1397,10 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
                 {addMealMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Adding...
+                    {isEditing ? "Saving..." : "Adding..."}
                   </>
                 ) : (
-                  "Add Meal"
+                  isEditing ? "Save Changes" : "Add Meal"
                 )}
               </Button>
             </DialogFooter>
@@ -676,5 +1408,23 @@ export default function AddMealDialog({ open, onOpenChange, userId, date }: AddM
         </Form>
       </DialogContent>
     </Dialog>
+    
+    {productDialogGtin && (
+      <BarcodeProductDialog
+        open={!!productDialogGtin}
+        onOpenChange={(dialogOpen) => !dialogOpen && setProductDialogGtin(null)}
+        gtin={productDialogGtin}
+        product={scannedProduct ?? undefined}
+        onSaved={(product) => {
+          // A newly registered product goes straight into the meal
+          if (scannedProduct) {
+            setScannedProduct(product);
+          } else {
+            addBarcodeProduct(product);
+          }
+        }}
+      />
+    )}
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,376 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
+import { type BarcodeProduct, type BarcodeProductLabel, type BarcodeProductRevision } from "@shared/schema";
+import { parseGtin, gtinForms } from "@shared/gtin";
+
+// Labels give serving sizes by weight or volume
+const servingUnits = ["g", "ml"] as const;
+
+// Form schema
+const amount = z.number({ invalid_type_error: "Enter a number" }).min(0, "Must be positive");
+
+const barcodeProductFormSchema = z.object({
+  name: z.string().trim().min(1, "Product name is required"),
+  brand: z.string().trim(),
+  servingSize: z.number({ invalid_type_error: "Enter a number" }).positive("Serving size must be positive"),
+  servingSizeUnit: z.enum(servingUnits),
+  householdServing: z.string().trim(),
+  calories: amount,
+  protein: amount,
+  carbs: amount,
+  fat: amount,
+  sugar: amount,
+  fiber: amount,
+  sodium: amount,
+  ingredients: z.string().trim(),
+});
+
+type BarcodeProductFormValues = z.infer<typeof barcodeProductFormSchema>;
+
+const nutrientFields: { name: keyof BarcodeProductFormValues; label: string }[] = [
+  { name: "calories", label: "Calories" },
+  { name: "protein", label: "Protein (g)" },
+  { name: "carbs", label: "Carbs (g)" },
+  { name: "fat", label: "Fat (g)" },
+  { name: "sugar", label: "Sugar (g)" },
+  { name: "fiber", label: "Fiber (g)" },
+  { name: "sodium", label: "Sodium (mg)" },
+];
+
+const labelFieldNames: Record<keyof BarcodeProductLabel, string> = {
+  name: "name",
+  brand: "brand",
+  ingredients: "ingredients",
+  servingSize: "serving size",
+  servingSizeUnit: "serving unit",
+  householdServing: "household serving",
+  calories: "calories",
+  protein: "protein",
+  carbs: "carbs",
+  fat: "fat",
+  sugar: "sugar",
+  fiber: "fiber",
+  sodium: "sodium",
+};
+
+// What a revision changed from the one before it
+function describeRevision(revision: BarcodeProductRevision, previous?: BarcodeProductRevision): string {
+  if (!previous) return "Registered";
+
+  const label = revision.label as BarcodeProductLabel;
+  const previousLabel = previous.label as BarcodeProductLabel;
+  const changed = (Object.keys(labelFieldNames) as (keyof BarcodeProductLabel)[])
+    .filter((field) => (label[field] ?? null) !== (previousLabel[field] ?? null))
+    .map((field) => labelFieldNames[field]);
+  return changed.length > 0 ? `Changed ${changed.join(", ")}` : "No changes";
+}
+
+interface BarcodeProductDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gtin: string;
+  // When set, the dialog corrects this product instead of registering the barcode
+  product?: BarcodeProduct;
+  onSaved?: (product: BarcodeProduct) => void;
+}
+
+export default function BarcodeProductDialog({ open, onOpenChange, gtin, product, onSaved }: BarcodeProductDialogProps) {
+  const isEditing = !!product;
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const parsedGtin = parseGtin(gtin);
+  const barcode = parsedGtin ? gtinForms(parsedGtin)[0] : gtin;
+
+  const { data: revisions = [] } = useQuery<BarcodeProductRevision[]>({
+    queryKey: [`/api/barcode-products/${product?.id}/revisions`],
+    enabled: open && isEditing,
+  });
+
+  const getDefaultValues = (): BarcodeProductFormValues => ({
+    name: product?.name ?? "",
+    brand: product?.brand ?? "",
+    servingSize: product?.servingSize ?? 0,
+    servingSizeUnit: product?.servingSizeUnit === "ml" ? "ml" : "g",
+    householdServing: product?.householdServing ?? "",
+    calories: product?.calories ?? 0,
+    protein: product?.protein ?? 0,
+    carbs: product?.carbs ?? 0,
+    fat: product?.fat ?? 0,
+    sugar: product?.sugar ?? 0,
+    fiber: product?.fiber ?? 0,
+    sodium: product?.sodium ?? 0,
+    ingredients: product?.ingredients ?? "",
+  });
+
+  const form = useForm<BarcodeProductFormValues>({
+    resolver: zodResolver(barcodeProductFormSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues());
+    }
+  }, [open, product]);
+
+  const saveProductMutation = useMutation({
+    mutationFn: async (values: BarcodeProductFormValues) => {
+      // Calories are stored as whole numbers; blank optional fields are left out
+      const productData = {
+        ...values,
+        calories: Math.round(values.calories),
+        brand: values.brand || null,
+        householdServing: values.householdServing || null,
+        ingredients: values.ingredients || null,
+      };
+      const res = product
+        ? await apiRequest("PATCH", `/api/barcode-products/${product.id}`, productData)
+        : await apiRequest("POST", "/api/barcode-products", { ...productData, gtin });
+      return (await res.json()) as BarcodeProduct;
+    },
+    onSuccess: (savedProduct) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/barcode-products/"),
+      });
+
+      toast({
+        title: isEditing ? "Product updated" : "Product added",
+        description: "Anyone who scans this barcode will now see these details.",
+      });
+
+      onSaved?.(savedProduct);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: isEditing ? "Failed to update product" : "Failed to add product",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: BarcodeProductFormValues) {
+    saveProductMutation.mutate(values);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Product" : "Add Product"}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? `Correct the label details for barcode ${barcode}.`
+              : `Barcode ${barcode} isn't in the FDA database yet. Copy the nutrition facts for one serving from the label.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Peanut Butter Cups" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="brand"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brand</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="servingSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serving size</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={field.value || ""}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="servingSizeUnit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {servingUnits.map((unit) => (
+                          <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="householdServing"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serving</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 1 cup" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {nutrientFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="ingredients"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ingredients</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="As listed on the package (optional)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isEditing && revisions.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-sm font-medium">History</div>
+                <div className="max-h-[120px] overflow-y-auto rounded-md border p-2 space-y-1">
+                  {revisions.map((revision, index) => (
+                    <div key={revision.id} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">Revision {revision.revision}</span>
+                      {" | "}{format(new Date(revision.createdAt), "MMM d, yyyy")}
+                      {" | "}{revision.userId === null ? "built in" : revision.userId === user?.id ? "you" : "another user"}
+                      {" | "}{describeRevision(revision, revisions[index + 1])}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveProductMutation.isPending}
+              >
+                {saveProductMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  isEditing ? "Save Changes" : "Add Product"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
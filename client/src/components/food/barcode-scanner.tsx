@@ -4,13 +4,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Loader2, XCircle, Check } from 'lucide-react';
 import { getFdaApi } from '@/services/fda-api';
+import { parseGtin, gtinForms } from '@shared/gtin';
 
 interface BarcodeScannerProps {
   onScanSuccess: (data: any) => void;
   onClose: () => void;
+  // Called with the UPC when neither the product registry nor FDA knows the barcode
+  onNotFound?: (upc: string) => void;
 }
 
-export default function BarcodeScanner({ onScanSuccess, onClose }: BarcodeScannerProps) {
+export default function BarcodeScanner({ onScanSuccess, onClose, onNotFound }: BarcodeScannerProps) {
   const [error, setError] = useState<string | null>(null);
   const [isScanning, setIsScanning] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -50,39 +53,23 @@ export default function BarcodeScanner({ onScanSuccess, onClose }: BarcodeScanne
       console.log("Original barcode:", barcode);
       console.log("Normalized barcode:", cleanBarcode);
       
-      // Special handling for known products
-      if (cleanBarcode.includes('40000579816') || cleanBarcode.includes('5000524116') || 
-          barcode.toLowerCase().includes('m&m') || barcode.toLowerCase().includes('m and m')) {
-        
-        // Hard-coded M&M's product data
-        console.log("Identified as M&M's candy - using specific product data");
-        const mmFormattedFood = {
-          name: "M&M's Milk Chocolate Candy",
-          brandName: "Mars",
-          barcode: "040000579816",
-          ingredients: "Milk Chocolate (Sugar, Chocolate, Skim Milk, Cocoa Butter, Lactose, Milkfat, Soy Lecithin, Salt, Artificial Flavors), Sugar, Cornstarch, Less Than 1% - Corn Syrup, Dextrin, Coloring (Includes Blue 1 Lake, Blue 2 Lake, Red 40 Lake, Yellow 6, Yellow 5, Blue 1, Red 40, Yellow 6 Lake, Yellow 5 Lake, Blue 2), Gum Acacia.",
-          servingSize: 30,
-          servingSizeUnit: 'g',
-          nutrients: {
-            calories: 140,
-            protein: 1,
-            carbs: 20,
-            fat: 5,
-            sugar: 19,
-            sodium: 10,
-            fiber: 0,
-            saturatedFat: 3
-          },
-          fdcId: 1000001
-        };
-        onScanSuccess(mmFormattedFood);
+      // A misread barcode fails its check digit; scan again rather than look it up
+      const gtin = parseGtin(cleanBarcode);
+      if (!gtin) {
+        setError("That barcode didn't scan cleanly. Hold steady and try again.");
+        setTimeout(() => {
+          setIsScanning(true);
+          setIsProcessing(false);
+          setError(null);
+        }, 3000);
         return;
       }
       
       // Proceed with FDA API search
-      console.log("Scanning barcode:", cleanBarcode);
+      const upc = gtinForms(gtin)[0];
+      console.log("Scanning barcode:", upc);
       const fdaApi = getFdaApi();
-      const result = await fdaApi.searchByUpc(cleanBarcode);
+      const result = await fdaApi.searchByUpc(upc);
       
       console.log("FDA API Result:", result);
       
@@ -90,20 +77,29 @@ export default function BarcodeScanner({ onScanSuccess, onClose }: BarcodeScanne
         const food = result.foods[0];
         console.log("Selected food item:", food);
         
+        // Products from the registry keep their label values, per serving;
+        // FDA's are per 100 g
+        const labelNutrients = food.barcodeProduct && food.perServing;
+        
         // Format the data for our app
         const formattedFood = {
-          name: food.description || food.brandedFoodCategory || 'Unknown Food',
-          brandName: food.brandName || food.brandOwner || '',
-          barcode: cleanBarcode,
+          name: food.name,
+          brandName: food.brand || '',
+          barcode: upc,
           ingredients: food.ingredients || '',
-          servingSize: food.servingSize || 0,
-          servingSizeUnit: food.servingSizeUnit || 'g',
-          nutrients: processNutrients(food.foodNutrients),
-          fdcId: food.fdcId
+          servingSize: food.serving?.size || 0,
+          servingSizeUnit: food.serving?.unit || 'g',
+          householdServingFullText: food.serving?.label || '',
+          nutrientsPer: labelNutrients ? 'serving' : '100g',
+          nutrients: labelNutrients || food.per100g,
+          fdcId: food.fdcId,
+          barcodeProduct: food.barcodeProduct
         };
         
         console.log("Formatted food data:", formattedFood);
         onScanSuccess(formattedFood);
+      } else if (onNotFound) {
+        onNotFound(upc);
       } else {
         setError('Food not found in database. Try entering details manually.');
         setTimeout(() => {
@@ -123,56 +119,6 @@ export default function BarcodeScanner({ onScanSuccess, onClose }: BarcodeScanne
     }
   };
 
-  // Extract nutrients from FDA API response
-  const processNutrients = (foodNutrients: any[]) => {
-    const nutrients = {
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      sugar: 0,
-      sodium: 0,
-      fiber: 0,
-      saturatedFat: 0
-    };
-    
-    if (!foodNutrients || !Array.isArray(foodNutrients)) {
-      return nutrients;
-    }
-    
-    foodNutrients.forEach(nutrient => {
-      // FDA API nutrient IDs
-      switch (nutrient.nutrientId) {
-        case 1008: // Energy (kcal)
-          nutrients.calories = nutrient.value || 0;
-          break;
-        case 1003: // Protein
-          nutrients.protein = nutrient.value || 0;
-          break;
-        case 1005: // Carbohydrates
-          nutrients.carbs = nutrient.value || 0;
-          break;
-        case 1004: // Total fat
-          nutrients.fat = nutrient.value || 0;
-          break;
-        case 2000: // Sugar
-          nutrients.sugar = nutrient.value || 0;
-          break;
-        case 1093: // Sodium
-          nutrients.sodium = nutrient.value || 0;
-          break;
-        case 1079: // Fiber
-          nutrients.fiber = nutrient.value || 0;
-          break;
-        case 1258: // Saturated fat
-          nutrients.saturatedFat = nutrient.value || 0;
-          break;
-      }
-    });
-    
-    return nutrients;
-  };
-
   return (
     <div className="fixed inset-0 z-50 bg-black bg-opacity-80 flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
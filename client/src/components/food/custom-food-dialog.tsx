@@ -0,0 +1,259 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { type FoodItem } from "@shared/schema";
+
+// Form schema
+const amount = z.number({ invalid_type_error: "Enter a number" }).min(0, "Must be positive");
+
+const customFoodFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  servingGrams: z.number().positive("Serving weight must be positive").nullable(),
+  calories: amount,
+  protein: amount,
+  carbs: amount,
+  fat: amount,
+  sugar: amount,
+  fiber: amount,
+  sodium: amount,
+  ingredientQuality: z.number().min(1).max(4),
+});
+
+type CustomFoodFormValues = z.infer<typeof customFoodFormSchema>;
+
+const nutrientFields: { name: keyof CustomFoodFormValues; label: string }[] = [
+  { name: "calories", label: "Calories" },
+  { name: "protein", label: "Protein (g)" },
+  { name: "carbs", label: "Carbs (g)" },
+  { name: "fat", label: "Fat (g)" },
+  { name: "sugar", label: "Sugar (g)" },
+  { name: "fiber", label: "Fiber (g)" },
+  { name: "sodium", label: "Sodium (mg)" },
+];
+
+interface CustomFoodDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this food instead of creating one
+  foodItem?: FoodItem;
+}
+
+export default function CustomFoodDialog({ open, onOpenChange, foodItem }: CustomFoodDialogProps) {
+  const isEditing = !!foodItem;
+  const { toast } = useToast();
+
+  const getDefaultValues = (): CustomFoodFormValues => ({
+    name: foodItem?.name ?? "",
+    servingGrams: foodItem?.servingGrams ?? null,
+    calories: foodItem?.calories ?? 0,
+    protein: foodItem?.protein ?? 0,
+    carbs: foodItem?.carbs ?? 0,
+    fat: foodItem?.fat ?? 0,
+    sugar: foodItem?.sugar ?? 0,
+    fiber: foodItem?.fiber ?? 0,
+    sodium: foodItem?.sodium ?? 0,
+    ingredientQuality: foodItem?.ingredientQuality ?? 4,
+  });
+
+  const form = useForm<CustomFoodFormValues>({
+    resolver: zodResolver(customFoodFormSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues());
+    }
+  }, [open, foodItem]);
+
+  const saveFoodMutation = useMutation({
+    mutationFn: async (values: CustomFoodFormValues) => {
+      // Calories are stored as whole numbers
+      const foodData = { ...values, calories: Math.round(values.calories) };
+      if (foodItem) {
+        return await apiRequest("PATCH", `/api/food-items/${foodItem.id}`, foodData);
+      }
+      return await apiRequest("POST", "/api/food-items", foodData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/food-items"] });
+
+      toast({
+        title: isEditing ? "Food updated" : "Food saved",
+        description: "It will now show up first when you search for foods.",
+      });
+
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: isEditing ? "Failed to update food" : "Failed to save food",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: CustomFoodFormValues) {
+    saveFoodMutation.mutate(values);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Food" : "New Food"}</DialogTitle>
+          <DialogDescription>
+            Enter the nutrients in one serving. Add the serving weight to log it in grams or use it in recipes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Grandma's flatbread" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="servingGrams"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Serving (g)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        placeholder="Optional"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {nutrientFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <FormField
+                control={form.control}
+                name="ingredientQuality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ingredient Quality</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      value={field.value.toString()}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="4">Excellent (4/4)</SelectItem>
+                        <SelectItem value="3">Good (3/4)</SelectItem>
+                        <SelectItem value="2">Fair (2/4)</SelectItem>
+                        <SelectItem value="1">Poor (1/4)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveFoodMutation.isPending}
+              >
+                {saveFoodMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  isEditing ? "Save Changes" : "Save Food"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
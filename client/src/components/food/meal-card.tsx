@@ -1,6 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { MoreVertical } from "lucide-react";
-import { type Meal } from "@shared/schema";
+import { type Meal, type MealItem } from "@shared/schema";
+import { fromDateKey } from "@shared/dates";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
@@ -14,6 +15,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import AddMealDialog from "@/components/food/add-meal-dialog";
 
 interface MealCardProps {
   meal: Meal;
@@ -21,6 +23,7 @@ interface MealCardProps {
 
 export default function MealCard({ meal }: MealCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
   const { toast } = useToast();
   
   // Get quality indicator based on meal.ingredientQuality (1-4 scale)
@@ -51,14 +54,9 @@ export default function MealCard({ meal }: MealCardProps) {
       return await apiRequest("DELETE", `/api/meals/${meal.id}`, undefined);
     },
     onSuccess: () => {
-      // Get the date from the meal to use in the query key
-      const date = new Date(meal.date);
-      // Format date as YYYY-MM-DD for query key
-      const formattedDate = date.toISOString().split('T')[0];
-      
-      // Invalidate both the meals list and the daily progress
-      queryClient.invalidateQueries({ queryKey: [`/api/meals?userId=${meal.userId}&date=${formattedDate}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?userId=${meal.userId}&date=${formattedDate}`] });
+      // Invalidate both the meals list and the daily progress for the meal's day
+      queryClient.invalidateQueries({ queryKey: [`/api/meals?date=${meal.date}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?date=${meal.date}`] });
       
       // Also invalidate with the original format to be sure
       queryClient.invalidateQueries({ queryKey: [`/api/meals`] });
@@ -85,6 +83,44 @@ export default function MealCard({ meal }: MealCardProps) {
     deleteMutation.mutate();
   };
   
+  // Save this meal so it can be logged again from the Templates tab
+  const saveTemplateMutation = useMutation({
+    mutationFn: async () => {
+      const items: MealItem[] = Array.isArray(meal.items) ? meal.items : [];
+      const itemNames = items.map((item) => item.name).filter(Boolean).join(", ");
+      
+      return await apiRequest("POST", "/api/meal-templates", {
+        name: itemNames ? `${meal.title}: ${itemNames}` : meal.title,
+        title: meal.title,
+        totalCalories: meal.totalCalories,
+        totalProtein: meal.totalProtein,
+        totalCarbs: meal.totalCarbs,
+        totalFat: meal.totalFat,
+        totalSugar: meal.totalSugar,
+        totalFiber: meal.totalFiber,
+        totalSodium: meal.totalSodium,
+        items: meal.items,
+        ingredientQuality: meal.ingredientQuality,
+        qualityNotes: meal.qualityNotes,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/meal-templates"] });
+      
+      toast({
+        title: "Template saved",
+        description: `${meal.title} can now be logged from the Templates tab.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   return (
     <Card className="mb-3 overflow-hidden border border-blue-100 shadow-sm bg-white">
       <CardContent className="p-4">
@@ -128,6 +164,15 @@ export default function MealCard({ meal }: MealCardProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                Edit Meal
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => saveTemplateMutation.mutate()}
+                disabled={saveTemplateMutation.isPending}
+              >
+                {saveTemplateMutation.isPending ? "Saving..." : "Save as Template"}
+              </DropdownMenuItem>
               <DropdownMenuItem className="text-red-500" onClick={handleDelete} disabled={isDeleting}>
                 {isDeleting ? "Deleting..." : "Delete Meal"}
               </DropdownMenuItem>
@@ -139,7 +184,12 @@ export default function MealCard({ meal }: MealCardProps) {
           <ul className="space-y-2">
             {Array.isArray(meal.items) && meal.items.map((item: any, index: number) => (
               <li key={index} className="flex justify-between text-sm">
-                <span className="text-slate-800">{item.name}</span>
+                <span className="text-slate-800">
+                  {item.name}
+                  {item.amount !== undefined && item.unit && (
+                    <span className="text-slate-500"> · {item.amount} {item.unit}</span>
+                  )}
+                </span>
                 <span className="text-slate-600 font-medium">{item.calories} cal</span>
               </li>
             ))}
@@ -178,6 +228,14 @@ export default function MealCard({ meal }: MealCardProps) {
           </div>
         </div>
       </CardContent>
+      
+      <AddMealDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        userId={meal.userId}
+        date={fromDateKey(meal.date)}
+        meal={meal}
+      />
     </Card>
   );
 }
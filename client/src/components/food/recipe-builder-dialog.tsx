@@ -0,0 +1,355 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm, useFieldArray } from "react-hook-form";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, Search, Loader2 } from "lucide-react";
+import { type FoodItem, type Recipe, type RecipeIngredient } from "@shared/schema";
+import { nutrientValuesSchema, foodItemPortion, scaleNutrients } from "@shared/units";
+import { computeRecipeNutrition } from "@shared/recipes";
+import { getFdaApi, getSearchNutrients } from "@/services/fda-api";
+
+// Form schema
+const ingredientSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  fdcId: z.number().optional(),
+  foodItemId: z.number().optional(),
+  grams: z.number().positive("Weight must be positive"),
+  nutrients: nutrientValuesSchema.optional(),
+});
+
+const recipeFormSchema = z.object({
+  name: z.string().trim().min(1, "Recipe name is required"),
+  servings: z.number().positive("Servings must be positive"),
+  ingredients: z.array(ingredientSchema).min(1, "Add at least one ingredient"),
+});
+
+type RecipeFormValues = z.infer<typeof recipeFormSchema>;
+type IngredientResult = Pick<RecipeIngredient, "name" | "fdcId" | "foodItemId"> &
+  Required<Pick<RecipeIngredient, "nutrients">>;
+
+interface RecipeBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this recipe instead of creating one
+  recipe?: Recipe;
+}
+
+export default function RecipeBuilderDialog({ open, onOpenChange, recipe }: RecipeBuilderDialogProps) {
+  const isEditing = !!recipe;
+  const [searchTerm, setSearchTerm] = useState("");
+  const [searchResults, setSearchResults] = useState<IngredientResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const { toast } = useToast();
+
+  // Custom foods with a serving weight can be weighed, so they can be ingredients too
+  const { data: customFoods = [] } = useQuery<FoodItem[]>({
+    queryKey: ["/api/food-items"],
+    enabled: open,
+  });
+  const normalizedTerm = searchTerm.trim().toLowerCase();
+  const matchingFoods: IngredientResult[] = normalizedTerm
+    ? customFoods
+        .filter((food) => food.servingGrams && food.name.toLowerCase().includes(normalizedTerm))
+        .map((food) => ({
+          name: food.name,
+          foodItemId: food.id,
+          nutrients: scaleNutrients(foodItemPortion(food), 100, "g"),
+        }))
+    : [];
+
+  const getDefaultValues = (): RecipeFormValues => ({
+    name: recipe?.name ?? "",
+    servings: recipe?.servings ?? 1,
+    ingredients: (recipe?.ingredients as RecipeIngredient[] | undefined) ?? [],
+  });
+
+  const form = useForm<RecipeFormValues>({
+    resolver: zodResolver(recipeFormSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(getDefaultValues());
+    }
+  }, [open, recipe]);
+
+  const { fields, append, remove, update } = useFieldArray({
+    control: form.control,
+    name: "ingredients",
+  });
+
+  // Preview only - the server computes the nutrition it stores
+  const ingredients = form.watch("ingredients");
+  const servings = form.watch("servings");
+  const preview = computeRecipeNutrition(ingredients, servings);
+
+  const saveRecipeMutation = useMutation({
+    mutationFn: async (values: RecipeFormValues) => {
+      if (recipe) {
+        return await apiRequest("PATCH", `/api/recipes/${recipe.id}`, values);
+      }
+      return await apiRequest("POST", "/api/recipes", values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+
+      toast({
+        title: isEditing ? "Recipe updated" : "Recipe saved",
+        description: "It will now show up when you search for foods.",
+      });
+
+      setSearchTerm("");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: isEditing ? "Failed to update recipe" : "Failed to save recipe",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: RecipeFormValues) {
+    saveRecipeMutation.mutate(values);
+  }
+
+  // Search FDA foods to use as ingredients
+  const handleSearch = async (query: string) => {
+    if (query.trim().length < 3) {
+      setSearchResults([]);
+      return;
+    }
+
+    try {
+      setIsSearching(true);
+      const result = await getFdaApi().searchFoodByName(query);
+      setSearchResults((result?.foods || []).map((food) => ({
+        name: food.name,
+        fdcId: food.fdcId,
+        nutrients: getSearchNutrients(food),
+      })));
+    } catch (error) {
+      console.error("Error searching FDA database:", error);
+      setSearchResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Ingredients start at 100 g, the weight FDA nutrients are reported for
+  const handleAddIngredient = (result: IngredientResult) => {
+    append({ ...result, grams: 100 });
+    setSearchTerm("");
+    setSearchResults([]);
+  };
+
+  const handleGramsChange = (index: number, grams: number) => {
+    if (!(grams > 0)) return;
+    update(index, { ...form.getValues(`ingredients.${index}`), grams });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Recipe" : "New Recipe"}</DialogTitle>
+          <DialogDescription>
+            Weigh each ingredient and say how many servings the recipe makes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Chicken chili" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="servings"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Servings</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={field.value}
+                        onChange={(e) => field.onChange(Number(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <FormLabel>Ingredients</FormLabel>
+                <div className="text-sm">
+                  <span className="text-gray-500">Per serving:</span>
+                  <span className="ml-1 font-medium">{preview.perServing.calories} cal</span>
+                  <span className="ml-2 font-medium">{preview.perServing.protein}g protein</span>
+                </div>
+              </div>
+
+              <div className="space-y-2 max-h-[200px] overflow-y-auto border rounded-md p-2">
+                {fields.length === 0 ? (
+                  <div className="text-center py-4 text-sm text-gray-500">
+                    No ingredients added yet. Search and add them below.
+                  </div>
+                ) : (
+                  fields.map((ingredient, index) => (
+                    <div key={ingredient.id} className="flex items-center justify-between gap-2 bg-gray-50 p-2 rounded">
+                      <div className="min-w-0 flex-1">
+                        <div className="font-medium text-sm truncate">{ingredient.name}</div>
+                        {ingredient.nutrients && (
+                          <div className="text-xs text-gray-500">
+                            {Math.round(ingredient.nutrients.calories * ingredient.grams / 100)} cal
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          className="h-8 w-20"
+                          defaultValue={ingredient.grams}
+                          aria-label={`Grams of ${ingredient.name}`}
+                          onBlur={(e) => handleGramsChange(index, Number(e.target.value))}
+                        />
+                        <span className="text-xs text-gray-500">g</span>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => remove(index)}
+                      >
+                        <Trash2 className="h-4 w-4 text-gray-500" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+              {form.formState.errors.ingredients?.message && (
+                <p className="text-sm font-medium text-destructive">{form.formState.errors.ingredients.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  placeholder="Search ingredients..."
+                  className="pl-9"
+                  value={searchTerm}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    handleSearch(e.target.value);
+                  }}
+                />
+              </div>
+
+              {searchTerm && (
+                <Card className="max-h-[200px] overflow-y-auto">
+                  <CardContent className="p-2 space-y-1">
+                    {[...matchingFoods, ...(isSearching ? [] : searchResults)].map((result) => (
+                      <div
+                        key={result.foodItemId ? `food-${result.foodItemId}` : result.fdcId}
+                        className="flex justify-between items-center p-2 hover:bg-gray-50 rounded cursor-pointer"
+                        onClick={() => handleAddIngredient(result)}
+                      >
+                        <div>
+                          <div className="font-medium text-sm">{result.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {result.foodItemId && "My food | "}
+                            {Math.round(result.nutrients.calories)} cal | {Math.round(result.nutrients.protein)}g protein per 100g
+                          </div>
+                        </div>
+                        <Button type="button" variant="ghost" size="icon">
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {isSearching ? (
+                      <div className="flex justify-center items-center py-4">
+                        <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+                        <span className="text-sm">Searching FDA database...</span>
+                      </div>
+                    ) : matchingFoods.length === 0 && searchResults.length === 0 && (
+                      <div className="text-center py-2 text-sm text-gray-500">
+                        No matching ingredients found
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveRecipeMutation.isPending}
+              >
+                {saveRecipeMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  isEditing ? "Save Changes" : "Save Recipe"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,27 +1,47 @@
 import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Check } from 'lucide-react';
-import { getFdaApi } from '@/services/fda-api';
+import { getFdaApi, getFdcErrorCode } from '@/services/fda-api';
+import { fdcErrorDescriptions, type FdcErrorCode, type FdaStatusResponse } from '@shared/fdc-errors';
+
+const errorTitles: Record<FdcErrorCode, string> = {
+  not_configured: 'FDA API not configured',
+  key_invalid: 'FDA API key rejected',
+  quota_exhausted: 'FDA API rate limit reached',
+  upstream_down: 'FoodData Central unavailable',
+  timeout: 'FoodData Central not responding',
+  bad_response: 'Unexpected response from FoodData Central',
+  not_found: 'FoodData Central search not found',
+};
+
+const sourceDescriptions: Record<FdaStatusResponse['source'], string> = {
+  usda: 'The FDA API key has been configured server-side.',
+  custom: 'Food search uses the FoodData Central server configured on the server.',
+  local: 'Food search uses the FoodData Central data imported on the server.',
+};
+
+type ApiStatus =
+  | { state: 'checking' }
+  | { state: 'connected'; source: FdaStatusResponse['source'] }
+  | { state: 'error'; code?: FdcErrorCode };
 
 export default function FdaApiSettings() {
-  const [apiStatus, setApiStatus] = useState<'checking' | 'connected' | 'error'>('checking');
-  
+  const [apiStatus, setApiStatus] = useState<ApiStatus>({ state: 'checking' });
+
   useEffect(() => {
     const checkApiConnection = async () => {
       try {
-        // Test the API connection
-        const fdaApi = getFdaApi();
-        await fdaApi.searchFoodByName('apple', 1);
-        setApiStatus('connected');
+        const { source } = await getFdaApi().checkStatus();
+        setApiStatus({ state: 'connected', source });
       } catch (error) {
         console.error('Error connecting to FDA API:', error);
-        setApiStatus('error');
+        setApiStatus({ state: 'error', code: getFdcErrorCode(error) });
       }
     };
-    
+
     checkApiConnection();
   }, []);
-  
+
   return (
     <Card>
       <CardHeader>
@@ -31,34 +51,39 @@ export default function FdaApiSettings() {
         </CardDescription>
       </CardHeader>
       <CardContent>
-        {apiStatus === 'checking' && (
+        {apiStatus.state === 'checking' && (
           <div className="p-4 rounded-lg border border-blue-200 bg-blue-50 text-blue-800">
             <p className="font-medium">Checking API connection...</p>
           </div>
         )}
-        
-        {apiStatus === 'connected' && (
+
+        {apiStatus.state === 'connected' && (
           <div className="p-4 rounded-lg border border-green-200 bg-green-50 text-green-800">
             <div className="flex items-center gap-2">
               <Check className="h-4 w-4 text-green-800" />
               <span className="font-medium">FDA API Connected</span>
             </div>
             <div className="mt-2 text-sm">
-              <p>The FDA API key has been configured server-side.</p>
+              <p>{sourceDescriptions[apiStatus.source]}</p>
               <p className="mt-1">You can now use barcode scanning and food search features without needing your own API key.</p>
             </div>
           </div>
         )}
-        
-        {apiStatus === 'error' && (
+
+        {apiStatus.state === 'error' && (
           <div className="p-4 rounded-lg border border-red-200 bg-red-50 text-red-800">
-            <p className="font-medium">Error connecting to FDA API</p>
+            <p className="font-medium">{apiStatus.code ? errorTitles[apiStatus.code] : 'Error connecting to FDA API'}</p>
             <p className="mt-2 text-sm">
-              There was an error connecting to the FDA API. Please contact the administrator to ensure the API key is properly configured.
+              {apiStatus.code
+                ? fdcErrorDescriptions[apiStatus.code]
+                : 'There was an error connecting to the FDA API.'}
             </p>
+            {apiStatus.code !== 'quota_exhausted' && apiStatus.code !== 'upstream_down' && apiStatus.code !== 'timeout' && (
+              <p className="mt-1 text-sm">Please contact the administrator to ensure the API key is properly configured.</p>
+            )}
           </div>
         )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -36,7 +36,8 @@ import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import { format } from "date-fns";
-import { type Exercise } from "@shared/schema";
+import { dateKeySchema, toDateKey } from "@shared/dates";
+import { type Exercise, type Workout, type WorkoutDetails } from "@shared/schema";
 
 // Utility functions for rowing calculations
 const splitToSeconds = (splitTime: string): number => {
@@ -108,7 +109,7 @@ const workoutDetailsSchema = z.object({
 const workoutFormSchema = z.object({
   userId: z.number(),
   title: z.string().min(1, "Title is required"),
-  date: z.date(),
+  date: dateKeySchema,
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
   caloriesBurned: z.coerce.number().min(0, "Calories must be positive"),
@@ -124,10 +125,13 @@ interface AddWorkoutDialogProps {
   onOpenChange: (open: boolean) => void;
   userId: number;
   date: Date;
+  // When set, the dialog edits this workout instead of logging a new one
+  workout?: Workout;
 }
 
-export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: AddWorkoutDialogProps) {
+export default function AddWorkoutDialog({ open, onOpenChange, userId, date, workout }: AddWorkoutDialogProps) {
   const { toast } = useToast();
+  const isEditing = !!workout;
   
   // Fetch exercise templates
   const { data: exercises = [] } = useQuery<Exercise[]>({
@@ -135,13 +139,36 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
     enabled: open,
   });
   
-  // Form setup
-  const form = useForm<WorkoutFormValues>({
-    resolver: zodResolver(workoutFormSchema),
-    defaultValues: {
+  // Blank form for a new workout, or the existing workout's values when editing
+  const getDefaultValues = (): WorkoutFormValues => {
+    if (workout) {
+      const details = (workout.details || {}) as WorkoutDetails;
+      return {
+        userId,
+        title: workout.title,
+        date: workout.date,
+        startTime: workout.startTime,
+        endTime: workout.endTime,
+        caloriesBurned: workout.caloriesBurned,
+        durationMinutes: workout.durationMinutes,
+        type: workout.type,
+        details: {
+          distance: details.distance,
+          pace: details.pace,
+          heartRate: details.heartRate,
+          sets: details.sets,
+          reps: details.reps,
+          weight: details.weight,
+          rowingMeters: details.rowingMeters,
+          rowingSplit: details.rowingSplit,
+        },
+      };
+    }
+    
+    return {
       userId,
       title: "",
-      date,
+      date: toDateKey(date),
       startTime: format(new Date(), "HH:mm"),
       endTime: format(new Date(new Date().getTime() + 30 * 60000), "HH:mm"),
       caloriesBurned: 0,
@@ -157,9 +184,22 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
         rowingMeters: undefined,
         rowingSplit: undefined,
       },
-    },
+    };
+  };
+  
+  // Form setup
+  const form = useForm<WorkoutFormValues>({
+    resolver: zodResolver(workoutFormSchema),
+    defaultValues: getDefaultValues(),
   });
   
+  // Reload the workout being edited each time the dialog opens
+  useEffect(() => {
+    if (open && workout) {
+      form.reset(getDefaultValues());
+    }
+  }, [open, workout]);
+  
   // Watch the workout type and fields for auto-calculations
   const workoutType = form.watch("type");
   const durationMinutes = form.watch("durationMinutes");
@@ -184,59 +224,54 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
     }
   }, [workoutType, durationMinutes, rowingMeters, rowingSplit, form]);
   
-  // Add workout mutation
+  // Add (or update) workout mutation
   const addWorkoutMutation = useMutation({
     mutationFn: async (values: WorkoutFormValues) => {
-      // Ensure date is in the correct format (YYYY-MM-DD)
-      const formattedDate = new Date(values.date).toISOString().split('T')[0];
-      
       // Convert floating point duration to integer for the database
       // We'll store the precise value in the form, but send rounded integers to the server
       const roundedDuration = Math.round(values.durationMinutes);
       
-      return await apiRequest("POST", "/api/workouts", {
+      const workoutData = {
         ...values,
-        date: formattedDate,
         durationMinutes: roundedDuration,
-      });
+      };
+      
+      if (workout) {
+        // The owner comes from the session, so only send the editable fields
+        const { userId: _userId, ...updates } = workoutData;
+        return await apiRequest("PATCH", `/api/workouts/${workout.id}`, updates);
+      }
+      
+      return await apiRequest("POST", "/api/workouts", workoutData);
     },
-    onSuccess: () => {
+    onSuccess: (_data, values) => {
       toast({
-        title: "Workout added",
-        description: "Your workout has been successfully logged.",
+        title: isEditing ? "Workout updated" : "Workout added",
+        description: isEditing
+          ? "Your changes have been saved."
+          : "Your workout has been successfully logged.",
       });
       
-      // Clear form and close dialog
-      form.reset({
-        userId,
-        title: "",
-        date,
-        startTime: format(new Date(), "HH:mm"),
-        endTime: format(new Date(new Date().getTime() + 30 * 60000), "HH:mm"),
-        caloriesBurned: 0,
-        durationMinutes: 30,
-        type: "cardio",
-        details: {
-          distance: undefined,
-          pace: undefined,
-          heartRate: undefined,
-          sets: undefined,
-          reps: undefined,
-          weight: undefined,
-          rowingMeters: undefined,
-          rowingSplit: undefined,
-        },
+      // Refresh the day the workout was on and the day it is on now (they differ if it moved)
+      const days = new Set([
+        workout ? workout.date : toDateKey(date),
+        values.date,
+      ]);
+      days.forEach((day) => {
+        queryClient.invalidateQueries({ queryKey: [`/api/workouts?date=${day}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?date=${day}`] });
       });
       
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: [`/api/workouts?userId=${userId}&date=${date.toISOString().split('T')[0]}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?userId=${userId}&date=${date.toISOString().split('T')[0]}`] });
+      // Clear form and close dialog
+      if (!isEditing) {
+        form.reset(getDefaultValues());
+      }
       
       onOpenChange(false);
     },
     onError: (error) => {
       toast({
-        title: "Failed to add workout",
+        title: isEditing ? "Failed to update workout" : "Failed to add workout",
         description: error.message,
         variant: "destructive",
       });
@@ -263,9 +298,11 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add Workout</DialogTitle>
+          <DialogTitle>{isEditing ? "Edit Workout" : "Add Workout"}</DialogTitle>
           <DialogDescription>
-            Log your workout details and track your progress.
+            {isEditing
+              ? "Update the details of this workout."
+              : "Log your workout details and track your progress."}
           </DialogDescription>
         </DialogHeader>
         
@@ -306,6 +343,30 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
               </div>
             )}
             
+            {isEditing && (
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="date"
+                        value={field.value}
+                        onChange={(e) => {
+                          if (e.target.value) {
+                            field.onChange(e.target.value);
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -345,7 +406,7 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
                     <FormLabel>Type</FormLabel>
                     <Select 
                       onValueChange={field.onChange} 
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -631,10 +692,10 @@ export default function AddWorkoutDialog({ open, onOpenChange, userId, date }: A
                 {addWorkoutMutation.isPending ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Adding...
+                    {isEditing ? "Saving..." : "Adding..."}
                   </>
                 ) : (
-                  "Add Workout"
+                  isEditing ? "Save Changes" : "Add Workout"
                 )}
               </Button>
             </DialogFooter>
@@ -1,6 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { MoreVertical } from "lucide-react";
 import { type Workout } from "@shared/schema";
+import { fromDateKey } from "@shared/dates";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
@@ -13,6 +14,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import AddWorkoutDialog from "@/components/workout/add-workout-dialog";
 
 interface WorkoutCardProps {
   workout: Workout;
@@ -20,6 +22,7 @@ interface WorkoutCardProps {
 
 export default function WorkoutCard({ workout }: WorkoutCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
   const { toast } = useToast();
   
   // Map workout type to icon
@@ -59,11 +62,9 @@ export default function WorkoutCard({ workout }: WorkoutCardProps) {
       return await apiRequest("DELETE", `/api/workouts/${workout.id}`, undefined);
     },
     onSuccess: () => {
-      // Get the date from the workout to use in the query key
-      const date = new Date(workout.date);
-      // Invalidate both the workouts list and the daily progress
-      queryClient.invalidateQueries({ queryKey: [`/api/workouts?userId=${workout.userId}&date=${date.toISOString().split('T')[0]}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?userId=${workout.userId}&date=${date.toISOString().split('T')[0]}`] });
+      // Invalidate both the workouts list and the daily progress for the workout's day
+      queryClient.invalidateQueries({ queryKey: [`/api/workouts?date=${workout.date}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/daily-progress?date=${workout.date}`] });
       
       toast({
         title: "Workout deleted",
@@ -127,6 +128,9 @@ export default function WorkoutCard({ workout }: WorkoutCardProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                Edit Workout
+              </DropdownMenuItem>
               <DropdownMenuItem className="text-red-500" onClick={handleDelete} disabled={isDeleting}>
                 {isDeleting ? "Deleting..." : "Delete Workout"}
               </DropdownMenuItem>
@@ -196,6 +200,14 @@ export default function WorkoutCard({ workout }: WorkoutCardProps) {
           )}
         </div>
       </CardContent>
+      
+      <AddWorkoutDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        userId={workout.userId}
+        date={fromDateKey(workout.date)}
+        workout={workout}
+      />
     </Card>
   );
 }
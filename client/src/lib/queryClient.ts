@@ -1,5 +1,11 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { isStaticEnvironment, createLocalStorageAPI } from "@/services/localStorage";
+import { parseDateKey, toDateKey, toTimeLabel, getLocalTimeZone } from "@shared/dates";
+import type { DayCopyKind, Recipe, RecipeIngredient } from "@shared/schema";
+import { computeRecipeNutrition } from "@shared/recipes";
+import { foodItemPortion, scaleNutrients } from "@shared/units";
+import { summarizeRecentFoods } from "@shared/recent-foods";
+import { buildFoodCandidates, draftMealItems } from "@shared/quick-log";
 
 // Determine if we're in a static environment (GitHub Pages, etc.)
 const isStatic = isStaticEnvironment();
@@ -12,6 +18,35 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Build a Response for the localStorage API, failing the same way a real request would
+async function staticResponse(body: unknown, status: number): Promise<Response> {
+  const res = new Response(JSON.stringify(body ?? null), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// Calendar date from a request parameter or body in the signed-in user's time
+// zone, the same way the server reads it. Missing dates mean today.
+function staticDateKey(value: unknown): string {
+  const timeZone = localStorageAPI?.getCurrentUser()?.timezone;
+  return parseDateKey(value, timeZone) ?? toDateKey(new Date(), timeZone);
+}
+
+// Ingredient lines with custom food nutrients filled in and the recipe's
+// nutrition recomputed, as the server does on every recipe write
+async function staticRecipeFields(ingredients: RecipeIngredient[], servings: number) {
+  const resolved = await Promise.all(ingredients.map(async (line) => {
+    if (line.foodItemId === undefined) return line;
+    const food = await localStorageAPI?.getFoodItem(line.foodItemId);
+    if (!food?.servingGrams) return line;
+    return { ...line, nutrients: scaleNutrients(foodItemPortion(food), 100, "g") };
+  }));
+  return { ingredients: resolved, ...computeRecipeNutrition(resolved, servings) };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -37,71 +72,245 @@ export async function apiRequest(
       // Handle different API endpoints
       let result;
       
+      // Data is scoped to whoever is signed in on this device
+      const userId = localStorageAPI.getCurrentUser()?.id ?? 0;
+      
+      // The barcode registry is shared by everyone on a server, so there is
+      // nothing to keep on this device; the app hides it in static mode
+      if (url.startsWith('/api/barcode-products')) {
+        return staticResponse({ message: "Barcode products need the server" }, 501);
+      }
+      
+      // Handle auth requests
+      if (url === '/api/login' || url === '/api/register') {
+        const { username, password, timezone } = data as { username: string; password: string; timezone?: string };
+        if (url === '/api/register') {
+          if (await localStorageAPI.getUserByUsername(username)) {
+            return staticResponse({ message: "Username already exists" }, 409);
+          }
+          await localStorageAPI.createUser({
+            username,
+            password,
+            calorieGoal: 2000,
+            proteinGoal: 120,
+            carbsGoal: 250,
+            fatGoal: 65,
+            sugarGoal: 50,
+            workoutGoal: 45,
+            timezone: timezone || getLocalTimeZone(),
+          });
+        }
+        const user = await localStorageAPI.login(username, password);
+        if (!user) {
+          return staticResponse({ message: "Invalid username or password" }, 401);
+        }
+        const { password: _password, ...userWithoutPassword } = user;
+        result = userWithoutPassword;
+      } else if (url === '/api/logout') {
+        await localStorageAPI.logout();
+      } else if (url === '/api/user/password') {
+        const { currentPassword, newPassword } = data as { currentPassword: string; newPassword: string };
+        if (!(await localStorageAPI.changePassword(currentPassword, newPassword))) {
+          return staticResponse({ message: "Current password is incorrect" }, 400);
+        }
+      }
       // Handle GET requests
-      if (method === 'GET') {
-        const userId = 1; // Default to demo user for static version
-        
+      else if (method === 'GET') {
         if (url.includes('/meals')) {
           if (url.includes('date=')) {
-            const dateParam = new URLSearchParams(url.split('?')[1]).get('date');
-            const date = dateParam ? new Date(dateParam) : new Date();
+            const date = staticDateKey(new URLSearchParams(url.split('?')[1]).get('date'));
             result = await localStorageAPI.getMealsByDate(userId, date);
           } else {
             result = await localStorageAPI.getMeals(userId);
           }
         } else if (url.includes('/workouts')) {
           if (url.includes('date=')) {
-            const dateParam = new URLSearchParams(url.split('?')[1]).get('date');
-            const date = dateParam ? new Date(dateParam) : new Date();
+            const date = staticDateKey(new URLSearchParams(url.split('?')[1]).get('date'));
             result = await localStorageAPI.getWorkoutsByDate(userId, date);
           } else {
             result = await localStorageAPI.getWorkouts(userId);
           }
+        } else if (url.includes('/daily-progress/range')) {
+          const params = new URLSearchParams(url.split('?')[1]);
+          const from = staticDateKey(params.get('from'));
+          const to = staticDateKey(params.get('to'));
+          result = await localStorageAPI.getDailyProgressRange(userId, from, to);
         } else if (url.includes('/daily-progress') && url.includes('date=')) {
-          const dateParam = new URLSearchParams(url.split('?')[1]).get('date');
-          const date = dateParam ? new Date(dateParam) : new Date();
+          const date = staticDateKey(new URLSearchParams(url.split('?')[1]).get('date'));
           result = await localStorageAPI.getDailyProgress(userId, date);
+        } else if (url.includes('/meal-templates')) {
+          result = await localStorageAPI.getMealTemplates(userId);
+        } else if (url.includes('/recipes')) {
+          result = await localStorageAPI.getRecipes(userId);
+        } else if (url.includes('/foods/recent')) {
+          const limit = new URLSearchParams(url.split('?')[1]).get('limit');
+          result = summarizeRecentFoods(await localStorageAPI.getMeals(userId), limit ? parseInt(limit, 10) : undefined);
         } else if (url.includes('/exercises')) {
           result = await localStorageAPI.getExercises();
         } else if (url.includes('/food-items')) {
-          result = await localStorageAPI.getFoodItems();
+          result = await localStorageAPI.getFoodItems(userId);
+        } else if (url.includes('/users/')) {
+          const user = await localStorageAPI.getUser(id as number);
+          if (user) {
+            const { password, ...userWithoutPassword } = user;
+            result = userWithoutPassword;
+          }
         }
       } 
       // Handle POST requests
       else if (method === 'POST') {
-        if (url.includes('/meals')) {
-          result = await localStorageAPI.createMeal(data as any);
+        const body = { ...(data as any), date: staticDateKey((data as any)?.date) };
+        const templateLog = url.match(/\/meal-templates\/(\d+)\/log$/);
+        if (url.includes('/days/copy')) {
+          const { from, to, include } = data as { from: string; to: string; include?: DayCopyKind[] };
+          const fromKey = staticDateKey(from);
+          const toKey = staticDateKey(to);
+          if (fromKey === toKey) {
+            return staticResponse({ message: "Pick a different day to copy to" }, 400);
+          }
+          result = await localStorageAPI.copyDay(userId, fromKey, toKey, include ?? ['meals', 'workouts']);
+        } else if (templateLog) {
+          const template = await localStorageAPI.getMealTemplate(parseInt(templateLog[1], 10));
+          if (!template || template.userId !== userId) {
+            return staticResponse({ message: "Meal template not found" }, 404);
+          }
+          const { id: _id, name: _name, ...mealFields } = template;
+          result = await localStorageAPI.createMeal({
+            ...mealFields,
+            date: body.date,
+            time: body.time ?? toTimeLabel(new Date(), localStorageAPI.getCurrentUser()?.timezone),
+          });
+        } else if (url.includes('/quick-log/parse')) {
+          const text = String((data as { text?: string })?.text ?? '').trim();
+          if (!text) {
+            return staticResponse({ message: "Describe what you ate" }, 400);
+          }
+          const candidates = buildFoodCandidates(
+            await localStorageAPI.getFoodItems(userId),
+            await localStorageAPI.getRecipes(userId),
+            await localStorageAPI.getMeals(userId),
+          );
+          result = draftMealItems(text, candidates);
+        } else if (url.includes('/meal-templates')) {
+          result = await localStorageAPI.createMealTemplate({ ...(data as any), userId });
+        } else if (url.includes('/recipes')) {
+          const { name, servings = 1, ingredients } = data as { name: string; servings?: number; ingredients: RecipeIngredient[] };
+          result = await localStorageAPI.createRecipe({
+            userId,
+            name,
+            servings,
+            ...(await staticRecipeFields(ingredients, servings)),
+          });
+        } else if (url.includes('/meals')) {
+          result = await localStorageAPI.createMeal({ ...body, userId });
         } else if (url.includes('/workouts')) {
-          result = await localStorageAPI.createWorkout(data as any);
+          result = await localStorageAPI.createWorkout({ ...body, userId });
         } else if (url.includes('/daily-progress')) {
-          result = await localStorageAPI.createOrUpdateDailyProgress(data as any);
+          result = await localStorageAPI.createOrUpdateDailyProgress({ ...body, userId });
         } else if (url.includes('/food-items')) {
-          result = await localStorageAPI.createFoodItem(data as any);
+          result = await localStorageAPI.createFoodItem({ ...(data as any), userId });
         } else if (url.includes('/exercises')) {
           result = await localStorageAPI.createExercise(data as any);
         }
       }
+      // Handle PATCH requests
+      else if (method === 'PATCH') {
+        if (url.includes('/meal-templates')) {
+          const template = await localStorageAPI.getMealTemplate(id as number);
+          if (!template || template.userId !== userId) {
+            return staticResponse({ message: "Meal template not found" }, 404);
+          }
+          result = await localStorageAPI.updateMealTemplate(id as number, data as any);
+        } else if (url.includes('/food-items')) {
+          const foodItem = await localStorageAPI.getFoodItem(id as number);
+          if (!foodItem || foodItem.userId !== userId) {
+            return staticResponse({ message: "Food item not found" }, 404);
+          }
+          result = await localStorageAPI.updateFoodItem(id as number, data as any);
+        } else if (url.includes('/recipes')) {
+          const recipe = await localStorageAPI.getRecipe(id as number);
+          if (!recipe || recipe.userId !== userId) {
+            return staticResponse({ message: "Recipe not found" }, 404);
+          }
+          const updates = data as Partial<Pick<Recipe, 'name' | 'servings'>> & { ingredients?: RecipeIngredient[] };
+          const servings = updates.servings ?? recipe.servings;
+          result = await localStorageAPI.updateRecipe(id as number, {
+            ...updates,
+            servings,
+            ...(await staticRecipeFields(updates.ingredients ?? (recipe.ingredients as RecipeIngredient[]), servings)),
+          });
+        } else if (url.includes('/meals')) {
+          const meal = await localStorageAPI.getMeal(id as number);
+          if (!meal || meal.userId !== userId) {
+            return staticResponse({ message: "Meal not found" }, 404);
+          }
+          const updates = data as any;
+          result = await localStorageAPI.updateMeal(id as number, updates.date === undefined
+            ? updates
+            : { ...updates, date: staticDateKey(updates.date) });
+        } else if (url.includes('/workouts')) {
+          const workout = await localStorageAPI.getWorkout(id as number);
+          if (!workout || workout.userId !== userId) {
+            return staticResponse({ message: "Workout not found" }, 404);
+          }
+          const updates = data as any;
+          result = await localStorageAPI.updateWorkout(id as number, updates.date === undefined
+            ? updates
+            : { ...updates, date: staticDateKey(updates.date) });
+        } else if (url.includes('/users/')) {
+          if (id !== userId) {
+            return staticResponse({ message: "Forbidden" }, 403);
+          }
+          const user = await localStorageAPI.updateUser(id, data as any);
+          if (user) {
+            const { password, ...userWithoutPassword } = user;
+            result = userWithoutPassword;
+          }
+        }
+      }
       // Handle DELETE requests
       else if (method === 'DELETE') {
-        if (url.includes('/meals')) {
+        if (url.includes('/meal-templates')) {
+          const template = await localStorageAPI.getMealTemplate(id as number);
+          if (!template || template.userId !== userId) {
+            return staticResponse({ message: "Meal template not found" }, 404);
+          }
+          result = await localStorageAPI.deleteMealTemplate(id as number);
+        } else if (url.includes('/recipes')) {
+          const recipe = await localStorageAPI.getRecipe(id as number);
+          if (!recipe || recipe.userId !== userId) {
+            return staticResponse({ message: "Recipe not found" }, 404);
+          }
+          result = await localStorageAPI.deleteRecipe(id as number);
+        } else if (url.includes('/food-items')) {
+          const foodItem = await localStorageAPI.getFoodItem(id as number);
+          if (!foodItem || foodItem.userId !== userId) {
+            return staticResponse({ message: "Food item not found" }, 404);
+          }
+          result = await localStorageAPI.deleteFoodItem(id as number);
+        } else if (url.includes('/meals')) {
+          const meal = await localStorageAPI.getMeal(id as number);
+          if (!meal || meal.userId !== userId) {
+            return staticResponse({ message: "Meal not found" }, 404);
+          }
           result = await localStorageAPI.deleteMeal(id as number);
         } else if (url.includes('/workouts')) {
+          const workout = await localStorageAPI.getWorkout(id as number);
+          if (!workout || workout.userId !== userId) {
+            return staticResponse({ message: "Workout not found" }, 404);
+          }
           result = await localStorageAPI.deleteWorkout(id as number);
         }
       }
       
       // Create a mock response
-      const mockResponse = new Response(JSON.stringify(result), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' }
-      });
-      
-      return mockResponse;
+      return staticResponse(result, 200);
     } catch (error) {
       console.error('Error using localStorage API:', error);
       throw new Error(`Error using localStorage API: ${error}`);
     }
   }
+
   
   // If not in static environment or localStorage API failed, use regular fetch
   const res = await fetch(url, {
@@ -126,35 +335,60 @@ export const getQueryFn: <T>(options: {
       try {
         const url = queryKey[0] as string;
         const endpoint = url.split('/').pop() || '';
-        const userId = 1; // Default to demo user for static version
+        const currentUser = localStorageAPI.getCurrentUser();
+        const userId = currentUser?.id ?? 0;
         
         // Handle different API endpoints
         let result;
         
-        if (url.includes('/meals')) {
+        if (url === '/api/user') {
+          if (!currentUser) {
+            if (unauthorizedBehavior === "returnNull") {
+              return null;
+            }
+            throw new Error("401: Not authenticated");
+          }
+          const { password, ...userWithoutPassword } = currentUser;
+          result = userWithoutPassword;
+        } else if (url.includes('/meals')) {
           if (url.includes('date=')) {
-            const dateParam = new URLSearchParams(url.split('?')[1]).get('date');
-            const date = dateParam ? new Date(dateParam) : new Date();
+            const date = staticDateKey(new URLSearchParams(url.split('?')[1]).get('date'));
             result = await localStorageAPI.getMealsByDate(userId, date);
           } else {
             result = await localStorageAPI.getMeals(userId);
           }
         } else if (url.includes('/workouts')) {
           if (url.includes('date=')) {
-            const dateParam = new URLSearchParams(url.split('?')[1]).get('date');
-            const date = dateParam ? new Date(dateParam) : new Date();
+            const date = staticDateKey(new URLSearchParams(url.split('?')[1]).get('date'));
             result = await localStorageAPI.getWorkoutsByDate(userId, date);
           } else {
             result = await localStorageAPI.getWorkouts(userId);
           }
+        } else if (url.includes('/daily-progress/range')) {
+          const params = new URLSearchParams(url.split('?')[1]);
+          const from = staticDateKey(params.get('from'));
+          const to = staticDateKey(params.get('to'));
+          result = await localStorageAPI.getDailyProgressRange(userId, from, to);
         } else if (url.includes('/daily-progress') && url.includes('date=')) {
-          const dateParam = new URLSearchParams(url.split('?')[1]).get('date');
-          const date = dateParam ? new Date(dateParam) : new Date();
+          const date = staticDateKey(new URLSearchParams(url.split('?')[1]).get('date'));
           result = await localStorageAPI.getDailyProgress(userId, date);
+        } else if (url.includes('/meal-templates')) {
+          result = await localStorageAPI.getMealTemplates(userId);
+        } else if (url.includes('/recipes')) {
+          result = await localStorageAPI.getRecipes(userId);
+        } else if (url.includes('/foods/recent')) {
+          const limit = new URLSearchParams(url.split('?')[1]).get('limit');
+          result = summarizeRecentFoods(await localStorageAPI.getMeals(userId), limit ? parseInt(limit, 10) : undefined);
         } else if (url.includes('/exercises')) {
           result = await localStorageAPI.getExercises();
         } else if (url.includes('/food-items')) {
-          result = await localStorageAPI.getFoodItems();
+          result = await localStorageAPI.getFoodItems(userId);
+        } else if (url.includes('/users/')) {
+          const user = await localStorageAPI.getUser(parseInt(endpoint, 10));
+          if (user) {
+            const { password, ...userWithoutPassword } = user;
+            result = userWithoutPassword;
+          }
         } else {
           // Default empty response for other endpoints
           result = [];
@@ -1,33 +1,110 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
 import MealCard from "@/components/food/meal-card";
 import AddMealDialog from "@/components/food/add-meal-dialog";
 import FoodSuggestions from "@/components/food/food-suggestions";
-import { type Meal } from "@shared/schema";
+import RecipeBuilderDialog from "@/components/food/recipe-builder-dialog";
+import CustomFoodDialog from "@/components/food/custom-food-dialog";
+import { type Meal, type Recipe, type FoodItem } from "@shared/schema";
+import { type NutrientValues } from "@shared/units";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { format } from "date-fns";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Pencil, Trash2 } from "lucide-react";
+import { toDateKey, fromDateKey } from "@shared/dates";
 
 export default function Food() {
-  const [selectedDate, setSelectedDate] = useState(new Date());
-  const [isAddMealOpen, setIsAddMealOpen] = useState(false);
+  // Signed-in user (the route is protected, so this is always set)
+  const { user: currentUser } = useAuth();
+  const userId = currentUser!.id;
   
-  // Hard-coded demo user for now (id: 1)
-  const userId = 1;
+  // Start on today as the user's time zone sees it
+  const [selectedDate, setSelectedDate] = useState(() => fromDateKey(toDateKey(new Date(), currentUser!.timezone)));
+  const [isAddMealOpen, setIsAddMealOpen] = useState(false);
+  const [isRecipeOpen, setIsRecipeOpen] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | undefined>();
+  const [isFoodOpen, setIsFoodOpen] = useState(false);
+  const [editingFood, setEditingFood] = useState<FoodItem | undefined>();
+  const { toast } = useToast();
   
   // Fetch meals
   const { data: meals = [], isLoading: isLoadingMeals } = useQuery<Meal[]>({
     queryKey: [
-      `/api/meals?userId=${userId}&date=${selectedDate.toISOString().split('T')[0]}`
+      `/api/meals?date=${toDateKey(selectedDate)}`
     ],
   });
   
+  // Fetch recipes
+  const { data: recipes = [], isLoading: isLoadingRecipes } = useQuery<Recipe[]>({
+    queryKey: ["/api/recipes"],
+  });
+  
+  const deleteRecipeMutation = useMutation({
+    mutationFn: async (recipe: Recipe) => {
+      return await apiRequest("DELETE", `/api/recipes/${recipe.id}`, undefined);
+    },
+    onSuccess: (_data, recipe) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      toast({
+        title: "Recipe deleted",
+        description: `${recipe.name} has been removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete recipe",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const openRecipeBuilder = (recipe?: Recipe) => {
+    setEditingRecipe(recipe);
+    setIsRecipeOpen(true);
+  };
+  
+  // Fetch custom foods (the user's own plus the shared samples)
+  const { data: foodItems = [], isLoading: isLoadingFoods } = useQuery<FoodItem[]>({
+    queryKey: ["/api/food-items"],
+  });
+  
+  const deleteFoodMutation = useMutation({
+    mutationFn: async (foodItem: FoodItem) => {
+      return await apiRequest("DELETE", `/api/food-items/${foodItem.id}`, undefined);
+    },
+    onSuccess: (_data, foodItem) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/food-items"] });
+      toast({
+        title: "Food deleted",
+        description: `${foodItem.name} has been removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete food",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const openFoodDialog = (foodItem?: FoodItem) => {
+    setEditingFood(foodItem);
+    setIsFoodOpen(true);
+  };
+  
   // Handle date change
   const handleDateChange = (date: string) => {
-    setSelectedDate(new Date(date));
+    // The input's value is a calendar date, so don't let Date read it as UTC
+    if (date) {
+      setSelectedDate(fromDateKey(date));
+    }
   };
   
   return (
@@ -37,8 +114,10 @@ export default function Food() {
       <main className="pt-16 pb-4">
         <div className="px-4 py-4">
           <Tabs defaultValue="meals">
-            <TabsList className="grid grid-cols-1 mb-4">
+            <TabsList className="grid grid-cols-3 mb-4">
               <TabsTrigger value="meals">Your Meals</TabsTrigger>
+              <TabsTrigger value="recipes">Recipes</TabsTrigger>
+              <TabsTrigger value="foods">My Foods</TabsTrigger>
             </TabsList>
             
             <TabsContent value="meals">
@@ -59,7 +138,7 @@ export default function Food() {
               <div className="mb-4">
                 <Input
                   type="date"
-                  value={format(selectedDate, "yyyy-MM-dd")}
+                  value={toDateKey(selectedDate)}
                   onChange={(e) => handleDateChange(e.target.value)}
                   className="w-full"
                 />
@@ -88,6 +167,131 @@ export default function Food() {
               
               <FoodSuggestions />
             </TabsContent>
+            
+            <TabsContent value="recipes">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold">Your Recipes</h2>
+                <Button 
+                  onClick={() => openRecipeBuilder()}
+                  size="sm"
+                  className="flex items-center gap-1"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                  </svg>
+                  New Recipe
+                </Button>
+              </div>
+              
+              {isLoadingRecipes ? (
+                <div className="animate-pulse space-y-3">
+                  <div className="h-20 bg-gray-200 rounded-xl"></div>
+                  <div className="h-20 bg-gray-200 rounded-xl"></div>
+                </div>
+              ) : recipes.length > 0 ? (
+                <div className="space-y-3">
+                  {recipes.map((recipe) => {
+                    const perServing = recipe.perServing as NutrientValues;
+                    return (
+                      <div key={recipe.id} className="flex justify-between items-center p-4 rounded-xl border border-blue-100 shadow-sm">
+                        <div>
+                          <h3 className="font-medium text-slate-800">{recipe.name}</h3>
+                          <p className="text-xs text-slate-500">
+                            {recipe.servings} serving{recipe.servings === 1 ? "" : "s"} | {perServing.calories} cal | {perServing.protein}g protein per serving
+                          </p>
+                        </div>
+                        <div className="flex">
+                          <Button variant="ghost" size="icon" onClick={() => openRecipeBuilder(recipe)}>
+                            <Pencil className="h-4 w-4 text-gray-500" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteRecipeMutation.mutate(recipe)}
+                            disabled={deleteRecipeMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-gray-500" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="bg-gray-50 rounded-xl p-8 text-center">
+                  <p className="text-gray-500">No recipes yet</p>
+                  <button 
+                    className="mt-3 text-primary font-medium"
+                    onClick={() => openRecipeBuilder()}
+                  >
+                    Build a recipe
+                  </button>
+                </div>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="foods">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold">My Foods</h2>
+                <Button 
+                  onClick={() => openFoodDialog()}
+                  size="sm"
+                  className="flex items-center gap-1"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                  </svg>
+                  New Food
+                </Button>
+              </div>
+              
+              {isLoadingFoods ? (
+                <div className="animate-pulse space-y-3">
+                  <div className="h-20 bg-gray-200 rounded-xl"></div>
+                  <div className="h-20 bg-gray-200 rounded-xl"></div>
+                </div>
+              ) : foodItems.length > 0 ? (
+                <div className="space-y-3">
+                  {foodItems.map((foodItem) => (
+                    <div key={foodItem.id} className="flex justify-between items-center p-4 rounded-xl border border-blue-100 shadow-sm">
+                      <div>
+                        <h3 className="font-medium text-slate-800">{foodItem.name}</h3>
+                        <p className="text-xs text-slate-500">
+                          {foodItem.calories} cal | {foodItem.protein}g protein per serving
+                          {foodItem.servingGrams && ` (${foodItem.servingGrams}g)`}
+                        </p>
+                      </div>
+                      {/* Shared sample foods can't be changed */}
+                      {foodItem.userId === userId && (
+                        <div className="flex">
+                          <Button variant="ghost" size="icon" onClick={() => openFoodDialog(foodItem)}>
+                            <Pencil className="h-4 w-4 text-gray-500" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteFoodMutation.mutate(foodItem)}
+                            disabled={deleteFoodMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-gray-500" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="bg-gray-50 rounded-xl p-8 text-center">
+                  <p className="text-gray-500">No custom foods yet</p>
+                  <button 
+                    className="mt-3 text-primary font-medium"
+                    onClick={() => openFoodDialog()}
+                  >
+                    Add a food
+                  </button>
+                </div>
+              )}
+            </TabsContent>
           </Tabs>
         </div>
       </main>
@@ -100,6 +304,18 @@ export default function Food() {
         userId={userId}
         date={selectedDate}
       />
+      
+      <RecipeBuilderDialog
+        open={isRecipeOpen}
+        onOpenChange={setIsRecipeOpen}
+        recipe={editingRecipe}
+      />
+      
+      <CustomFoodDialog
+        open={isFoodOpen}
+        onOpenChange={setIsFoodOpen}
+        foodItem={editingFood}
+      />
     </div>
   );
 }
@@ -11,33 +11,38 @@ import WorkoutSuggestions from "@/components/workout/workout-suggestions";
 import FoodSuggestions from "@/components/food/food-suggestions";
 import AddWorkoutDialog from "@/components/workout/add-workout-dialog";
 import { type Meal, type Workout, type DailyProgress } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { toDateKey, fromDateKey } from "@shared/dates";
 
 export default function Home() {
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  // Signed-in user (the route is protected, so this is always set)
+  const { user: currentUser } = useAuth();
+  const userId = currentUser!.id;
+  
+  // Start on today as the user's time zone sees it
+  const [selectedDate, setSelectedDate] = useState(() => fromDateKey(toDateKey(new Date(), currentUser!.timezone)));
   const [isAddMealOpen, setIsAddMealOpen] = useState(false);
   const [isAddWorkoutOpen, setIsAddWorkoutOpen] = useState(false);
-  
-  // Hard-coded demo user for now (id: 1)
-  const userId = 1;
+  const selectedDateKey = toDateKey(selectedDate);
   
   // Fetch daily progress
   const { data: dailyProgress, isLoading: isLoadingProgress } = useQuery<DailyProgress>({
     queryKey: [
-      `/api/daily-progress?userId=${userId}&date=${selectedDate.toISOString()}`
+      `/api/daily-progress?date=${selectedDateKey}`
     ],
   });
   
   // Fetch meals
   const { data: meals = [], isLoading: isLoadingMeals } = useQuery<Meal[]>({
     queryKey: [
-      `/api/meals?userId=${userId}&date=${selectedDate.toISOString()}`
+      `/api/meals?date=${selectedDateKey}`
     ],
   });
   
   // Fetch workouts
   const { data: workouts = [], isLoading: isLoadingWorkouts } = useQuery<Workout[]>({
     queryKey: [
-      `/api/workouts?userId=${userId}&date=${selectedDate.toISOString()}`
+      `/api/workouts?date=${selectedDateKey}`
     ],
   });
   
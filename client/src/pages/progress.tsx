@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { type DailyProgress, type User } from "@shared/schema";
 import { subDays, format, startOfWeek, addDays } from "date-fns";
+import { toDateKey, fromDateKey } from "@shared/dates";
 import {
   LineChart,
   Line,
@@ -18,54 +19,46 @@ import {
   Legend,
   ResponsiveContainer
 } from "recharts";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Progress() {
-  const [selectedDate, setSelectedDate] = useState(new Date());
-  
-  // Hard-coded demo user for now (id: 1)
-  const userId = 1;
+  // Signed-in user (the route is protected, so this is always set)
+  const { user: currentUser } = useAuth();
+  const userId = currentUser!.id;
   
   // Fetch user data for goals
   const { data: user } = useQuery<User>({
     queryKey: [`/api/users/${userId}`],
   });
   
-  // Get daily progress for the last 7 days
-  const last7Days = Array.from({ length: 7 }, (_, i) => subDays(new Date(), i));
+  // Get daily progress for the last 7 days, counted from today in the user's time zone
+  const today = fromDateKey(toDateKey(new Date(), currentUser!.timezone));
+  const last7Days = Array.from({ length: 7 }, (_, i) => subDays(today, i));
+  const startOfCurrentWeek = startOfWeek(today);
+  const daysInWeek = Array.from({ length: 7 }, (_, i) => addDays(startOfCurrentWeek, i));
   
-  // Create a map to store daily progress data by date
-  const [progressData, setProgressData] = useState<Map<string, DailyProgress>>(new Map());
+  // One request covers both views: the week always starts within the last 7 days
+  const rangeFrom = toDateKey(last7Days[last7Days.length - 1]);
+  const rangeTo = toDateKey(daysInWeek[daysInWeek.length - 1]);
   
-  // Fetch daily progress for the selected date
-  const { data: currentDayProgress } = useQuery<DailyProgress>({
-    queryKey: [`/api/daily-progress?userId=${userId}&date=${selectedDate.toISOString().split('T')[0]}`],
+  const { data: progressHistory = [] } = useQuery<DailyProgress[]>({
+    queryKey: [`/api/daily-progress/range?from=${rangeFrom}&to=${rangeTo}`],
+    // Meal and workout changes only invalidate single-day keys, so reload on every visit
+    refetchOnMount: "always",
   });
   
-  // Use a single effect to update the progress data 
-  useEffect(() => {
-    if (currentDayProgress) {
-      setProgressData(prev => {
-        const newMap = new Map(prev);
-        // Use the selected date instead of always using today
-        const dateKey = format(selectedDate, "yyyy-MM-dd");
-        
-        // Ensure we're handling date correctly whether it's a string or Date object
-        newMap.set(dateKey, {
-          ...currentDayProgress,
-          // Handle the date which might be a string from the API
-          date: currentDayProgress.date instanceof Date 
-            ? currentDayProgress.date 
-            : new Date(currentDayProgress.date)
-        });
-        
-        return newMap;
-      });
+  // Map of daily progress data by date
+  const progressData = useMemo(() => {
+    const map = new Map<string, DailyProgress>();
+    for (const progress of progressHistory) {
+      map.set(progress.date, progress);
     }
-  }, [currentDayProgress, selectedDate]);
+    return map;
+  }, [progressHistory]);
   
   // Prepare data for charts
   const caloriesChartData = last7Days.map(date => {
-    const dateKey = format(date, "yyyy-MM-dd");
+    const dateKey = toDateKey(date);
     const progress = progressData.get(dateKey);
     return {
       date: format(date, "MM/dd"),
@@ -76,7 +69,7 @@ export default function Progress() {
   }).reverse();
   
   const nutrientsChartData = last7Days.map(date => {
-    const dateKey = format(date, "yyyy-MM-dd");
+    const dateKey = toDateKey(date);
     const progress = progressData.get(dateKey);
     return {
       date: format(date, "MM/dd"),
@@ -87,7 +80,7 @@ export default function Progress() {
   }).reverse();
   
   const workoutChartData = last7Days.map(date => {
-    const dateKey = format(date, "yyyy-MM-dd");
+    const dateKey = toDateKey(date);
     const progress = progressData.get(dateKey);
     return {
       date: format(date, "MM/dd"),
@@ -97,11 +90,8 @@ export default function Progress() {
   }).reverse();
   
   // Create weekly summary
-  const startOfCurrentWeek = startOfWeek(new Date());
-  const daysInWeek = Array.from({ length: 7 }, (_, i) => addDays(startOfCurrentWeek, i));
-  
   const weeklyData = daysInWeek.map(date => {
-    const dateKey = format(date, "yyyy-MM-dd");
+    const dateKey = toDateKey(date);
     const progress = progressData.get(dateKey);
     return {
       date: format(date, "EEE"),
@@ -118,7 +108,7 @@ export default function Progress() {
     totalRowingMeters: weeklyData.reduce((acc, day) => {
       const index = weeklyData.findIndex(d => d.date === day.date);
       if (index >= 0 && index < daysInWeek.length) {
-        const dateKey = format(daysInWeek[index], "yyyy-MM-dd");
+        const dateKey = toDateKey(daysInWeek[index]);
         const progress = progressData.get(dateKey);
         return acc + (progress?.rowingMeters || 0);
       }
@@ -129,7 +119,7 @@ export default function Progress() {
       // We need to use the same index to get the original Date object
       const index = weeklyData.findIndex(d => d.date === day.date);
       if (index >= 0 && index < daysInWeek.length) {
-        const dateKey = format(daysInWeek[index], "yyyy-MM-dd");
+        const dateKey = toDateKey(daysInWeek[index]);
         const progress = progressData.get(dateKey);
         return acc + (progress?.proteinConsumed || 0);
       }
@@ -314,7 +304,7 @@ export default function Progress() {
                         const index = weeklyData.findIndex(d => d.date === day.date);
                         let rowingMeters = 0;
                         if (index >= 0 && index < daysInWeek.length) {
-                          const dateKey = format(daysInWeek[index], "yyyy-MM-dd");
+                          const dateKey = toDateKey(daysInWeek[index]);
                           const progress = progressData.get(dateKey);
                           rowingMeters = progress?.rowingMeters || 0;
                         }
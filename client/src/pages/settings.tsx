@@ -3,7 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import Header from "@/components/layout/header";
 import BottomNavigation from "@/components/layout/bottom-navigation";
-import { type User } from "@shared/schema";
+import { type User, changePasswordSchema } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,11 +19,21 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
-import { Loader2, Save } from "lucide-react";
+import { Loader2, Save, LogOut, KeyRound } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import FdaApiSettings from "@/components/settings/fda-api-settings";
+import { useAuth } from "@/hooks/use-auth";
+import { getLocalTimeZone, DEFAULT_TIME_ZONE } from "@shared/dates";
+
+// Every zone the browser knows, with the device's own listed first
+const timeZones = Array.from(new Set([
+  getLocalTimeZone(),
+  DEFAULT_TIME_ZONE,
+  ...Intl.supportedValuesOf("timeZone"),
+]));
 
 const nutritionGoalsSchema = z.object({
   calorieGoal: z.coerce.number().min(500, "Must be at least 500").max(10000, "Must be at most 10000"),
@@ -39,8 +49,9 @@ export default function Settings() {
   
   const { toast } = useToast();
   
-  // Hard-coded demo user for now (id: 1)
-  const userId = 1;
+  // Signed-in user (the route is protected, so this is always set)
+  const { user: currentUser, logoutMutation } = useAuth();
+  const userId = currentUser!.id;
   
   // Fetch user data
   const { data: user, isLoading } = useQuery<User>({
@@ -81,6 +92,7 @@ export default function Settings() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       toast({
         title: "Settings updated",
         description: "Your nutrition goals have been saved.",
@@ -99,6 +111,57 @@ export default function Settings() {
     updateMutation.mutate(values);
   }
   
+  // The time zone decides which day meals and workouts are logged on
+  const timezoneMutation = useMutation({
+    mutationFn: async (timezone: string) => {
+      return await apiRequest("PATCH", `/api/users/${userId}`, { timezone });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${userId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Time zone updated",
+        description: "New entries will be logged on your local day.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update time zone",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Change password form
+  const passwordForm = useForm<z.infer<typeof changePasswordSchema>>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+    },
+  });
+  
+  const passwordMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof changePasswordSchema>) => {
+      return await apiRequest("POST", "/api/user/password", values);
+    },
+    onSuccess: () => {
+      passwordForm.reset();
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you sign in.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   return (
     <div className="max-w-md mx-auto bg-white min-h-screen relative pb-20">
       <Header />
@@ -113,6 +176,54 @@ export default function Settings() {
               <CardDescription>Manage your account settings</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="font-medium">Signed in as</h3>
+                  <p className="text-sm text-gray-500">{currentUser!.username}</p>
+                </div>
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  className="flex items-center gap-2"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                >
+                  {logoutMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogOut className="h-4 w-4" />
+                  )}
+                  Sign Out
+                </Button>
+              </div>
+              
+              <Separator />
+              
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-medium">Time Zone</h3>
+                  <p className="text-sm text-gray-500">Used to decide which day things are logged on</p>
+                </div>
+                <Select
+                  value={user?.timezone ?? currentUser!.timezone}
+                  onValueChange={(timezone) => timezoneMutation.mutate(timezone)}
+                  disabled={timezoneMutation.isPending}
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeZones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <Separator />
+              
               <div className="flex items-center justify-between">
                 <div>
                   <h3 className="font-medium">Notifications</h3>
@@ -241,6 +352,63 @@ export default function Settings() {
             </CardContent>
           </Card>
           
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Change Password</CardTitle>
+              <CardDescription>Confirm your current password to set a new one</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...passwordForm}>
+                <form 
+                  onSubmit={passwordForm.handleSubmit((values) => passwordMutation.mutate(values))} 
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={passwordForm.control}
+                    name="currentPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Current Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="current-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={passwordForm.control}
+                    name="newPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <Button 
+                    type="submit" 
+                    variant="outline"
+                    className="w-full flex items-center gap-2"
+                    disabled={passwordMutation.isPending}
+                  >
+                    {passwordMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <KeyRound className="h-4 w-4" />
+                    )}
+                    Update Password
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+          
           {/* FDA API Settings */}
           <div className="mb-6">
             <FdaApiSettings />
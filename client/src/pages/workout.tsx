@@ -10,21 +10,24 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Search } from "lucide-react";
-import { format } from "date-fns";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { toDateKey, fromDateKey } from "@shared/dates";
 
 export default function Workout() {
-  const [selectedDate, setSelectedDate] = useState(new Date());
+  // Signed-in user (the route is protected, so this is always set)
+  const { user: currentUser } = useAuth();
+  const userId = currentUser!.id;
+  
+  // Start on today as the user's time zone sees it
+  const [selectedDate, setSelectedDate] = useState(() => fromDateKey(toDateKey(new Date(), currentUser!.timezone)));
   const [isAddWorkoutOpen, setIsAddWorkoutOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   
-  // Hard-coded demo user for now (id: 1)
-  const userId = 1;
-  
   // Fetch workouts
   const { data: workouts = [], isLoading: isLoadingWorkouts } = useQuery<Workout[]>({
     queryKey: [
-      `/api/workouts?userId=${userId}&date=${selectedDate.toISOString().split('T')[0]}`
+      `/api/workouts?date=${toDateKey(selectedDate)}`
     ],
   });
   
@@ -40,7 +43,10 @@ export default function Workout() {
   
   // Handle date change
   const handleDateChange = (date: string) => {
-    setSelectedDate(new Date(date));
+    // The input's value is a calendar date, so don't let Date read it as UTC
+    if (date) {
+      setSelectedDate(fromDateKey(date));
+    }
   };
   
   return (
@@ -73,7 +79,7 @@ export default function Workout() {
               <div className="mb-4">
                 <Input
                   type="date"
-                  value={format(selectedDate, "yyyy-MM-dd")}
+                  value={toDateKey(selectedDate)}
                   onChange={(e) => handleDateChange(e.target.value)}
                   className="w-full"
                 />
@@ -1,4 +1,35 @@
 import axios from 'axios';
+import type { NutrientValues } from '@shared/units';
+import type {
+  NormalizedFood,
+  NormalizedSearchResponse,
+  NormalizedBarcodeResponse
+} from '@shared/normalized-food';
+import type { FdaDataType, FdaSearchSort } from '@shared/fda-search';
+import { isFdcErrorResponse, type FdcErrorCode, type FdaStatusResponse } from '@shared/fdc-errors';
+
+export interface FdaSearchOptions {
+  pageNumber?: number;
+  dataTypes?: FdaDataType[];
+  brandOwner?: string;
+  sort?: FdaSearchSort;
+}
+
+/**
+ * The nutrients meals track for an FDA food, per 100 g
+ */
+export function getSearchNutrients(food: NormalizedFood): NutrientValues {
+  const { saturatedFat: _saturatedFat, ...nutrients } = food.per100g;
+  return nutrients;
+}
+
+/**
+ * Why an FDA request failed, when the server could tell
+ */
+export function getFdcErrorCode(error: unknown): FdcErrorCode | undefined {
+  const body = axios.isAxiosError(error) ? error.response?.data : undefined;
+  return isFdcErrorResponse(body) ? body.code : undefined;
+}
 
 /**
  * FDA Food Data Central API Service
@@ -6,14 +37,18 @@ import axios from 'axios';
  */
 export class FdaApiService {
   /**
-   * Search for food items by name
+   * Search for food items by name, one page at a time
    */
-  async searchFoodByName(query: string, pageSize = 20): Promise<any> {
+  async searchFoodByName(query: string, pageSize = 20, options: FdaSearchOptions = {}): Promise<NormalizedSearchResponse> {
     try {
       const response = await axios.get(`/api/fda/search`, {
         params: {
           q: query,
-          pageSize
+          pageSize,
+          pageNumber: options.pageNumber,
+          dataType: options.dataTypes?.length ? options.dataTypes.join(',') : undefined,
+          brandOwner: options.brandOwner,
+          sort: options.sort
         }
       });
       return response.data;
@@ -26,7 +61,7 @@ export class FdaApiService {
   /**
    * Get detailed food information by FDC ID
    */
-  async getFoodDetails(fdcId: string): Promise<any> {
+  async getFoodDetails(fdcId: string): Promise<NormalizedFood> {
     try {
       const response = await axios.get(`/api/fda/food/${fdcId}`);
       return response.data;
@@ -39,7 +74,7 @@ export class FdaApiService {
   /**
    * Search food by UPC barcode
    */
-  async searchByUpc(upc: string): Promise<any> {
+  async searchByUpc(upc: string): Promise<NormalizedBarcodeResponse> {
     try {
       const response = await axios.get(`/api/fda/barcode/${upc}`);
       return response.data;
@@ -49,6 +84,14 @@ export class FdaApiService {
     }
   }
 
+  /**
+   * Check that the server can reach its food database
+   */
+  async checkStatus(): Promise<FdaStatusResponse> {
+    const response = await axios.get(`/api/fda/status`);
+    return response.data;
+  }
+
   /**
    * Analyze ingredient quality based on nutrition information
    * Returns a quality score and notes about potentially harmful ingredients
@@ -1,10 +1,14 @@
-import { User, FoodItem, Meal, Exercise, Workout, DailyProgress } from "@shared/schema";
+import { User, FoodItem, Meal, MealTemplate, Recipe, Exercise, Workout, DailyProgress, DayCopyKind, CopiedDay } from "@shared/schema";
+import { aggregateDayTotals } from "@shared/progress";
+import { parseDateKey, getLocalTimeZone } from "@shared/dates";
 
 // Type definitions for stored data
 type StorageData = {
   users: User[];
   foodItems: FoodItem[];
   meals: Meal[];
+  mealTemplates: MealTemplate[];
+  recipes: Recipe[];
   exercises: Exercise[];
   workouts: Workout[];
   dailyProgress: DailyProgress[];
@@ -22,10 +26,13 @@ const initialData: StorageData = {
     carbsGoal: 200,
     fatGoal: 70,
     sugarGoal: 50,
-    workoutGoal: 30
+    workoutGoal: 30,
+    timezone: getLocalTimeZone()
   }],
   foodItems: [],
   meals: [],
+  mealTemplates: [],
+  recipes: [],
   exercises: [],
   workouts: [],
   dailyProgress: [],
@@ -35,11 +42,32 @@ const initialData: StorageData = {
 // LocalStorage keys
 const STORAGE_KEY = 'foodtopia_data';
 
+// Data saved before dates were calendar dates holds full timestamps;
+// read those as the day they fell on here
+const migrateStoredDates = (data: StorageData): StorageData => {
+  const toKey = <T extends { date: string }>(record: T): T => ({
+    ...record,
+    date: parseDateKey(record.date) ?? record.date,
+  });
+  const withTimeZone = (user: User): User => ({ ...user, timezone: user.timezone || getLocalTimeZone() });
+  
+  return {
+    ...data,
+    users: data.users.map(withTimeZone),
+    currentUser: data.currentUser && withTimeZone(data.currentUser),
+    meals: data.meals.map(toKey),
+    mealTemplates: data.mealTemplates ?? [],
+    recipes: data.recipes ?? [],
+    workouts: data.workouts.map(toKey),
+    dailyProgress: data.dailyProgress.map(toKey),
+  };
+};
+
 // Load data from localStorage
 export const loadFromStorage = (): StorageData => {
   try {
     const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : initialData;
+    return data ? migrateStoredDates(JSON.parse(data)) : initialData;
   } catch (error) {
     console.error('Error loading data from localStorage:', error);
     return initialData;
@@ -80,17 +108,57 @@ export const createLocalStorageAPI = () => {
       : 1;
   };
   
-  // Format dates for comparison
-  const formatDate = (date: Date): string => {
-    return new Date(date).toISOString().split('T')[0];
-  };
-  
-  // Check if two dates are the same day
-  const isSameDay = (date1: Date, date2: Date): boolean => {
-    return formatDate(date1) === formatDate(date2);
+  // Rebuild a day's progress record from the meals and workouts logged on it
+  const recalculateDailyProgress = (userId: number, date: string): void => {
+    const dayMeals = data.meals.filter(meal => meal.userId === userId && meal.date === date);
+    const dayWorkouts = data.workouts.filter(workout => workout.userId === userId && workout.date === date);
+    const existingIndex = data.dailyProgress.findIndex(p => p.userId === userId && p.date === date);
+    
+    const totals = aggregateDayTotals(dayMeals, dayWorkouts);
+    
+    if (existingIndex >= 0) {
+      data.dailyProgress[existingIndex] = { ...data.dailyProgress[existingIndex], ...totals };
+    } else if (dayMeals.length > 0 || dayWorkouts.length > 0) {
+      data.dailyProgress.push({
+        id: getNewId(data.dailyProgress),
+        userId,
+        date,
+        ...totals
+      });
+    }
   };
   
   return {
+    // Session methods (stand-ins for /api/login, /api/logout and /api/user)
+    getCurrentUser: (): User | null => {
+      return data.currentUser;
+    },
+    
+    login: async (username: string, password: string): Promise<User | undefined> => {
+      const user = data.users.find(u => u.username === username && u.password === password);
+      if (user) {
+        data.currentUser = user;
+        saveData();
+      }
+      return user;
+    },
+    
+    changePassword: async (currentPassword: string, newPassword: string): Promise<boolean> => {
+      const user = data.currentUser && data.users.find(u => u.id === data.currentUser!.id);
+      if (!user || user.password !== currentPassword) {
+        return false;
+      }
+      user.password = newPassword;
+      data.currentUser = user;
+      saveData();
+      return true;
+    },
+    
+    logout: async (): Promise<void> => {
+      data.currentUser = null;
+      saveData();
+    },
+    
     // User methods
     getUser: async (id: number): Promise<User | undefined> => {
       return data.users.find(user => user.id === id);
@@ -107,9 +175,23 @@ export const createLocalStorageAPI = () => {
       return newUser;
     },
     
+    updateUser: async (id: number, updates: Partial<Omit<User, 'id' | 'username' | 'password'>>): Promise<User | undefined> => {
+      const index = data.users.findIndex(user => user.id === id);
+      if (index < 0) return undefined;
+      
+      const updatedUser = { ...data.users[index], ...updates };
+      data.users[index] = updatedUser;
+      if (data.currentUser?.id === id) {
+        data.currentUser = updatedUser;
+      }
+      saveData();
+      return updatedUser;
+    },
+    
     // Food items methods
-    getFoodItems: async (): Promise<FoodItem[]> => {
-      return data.foodItems;
+    getFoodItems: async (userId: number): Promise<FoodItem[]> => {
+      // Foods saved before custom foods were per user have no owner and stay shared
+      return data.foodItems.filter(item => item.userId === userId || item.userId == null);
     },
     
     getFoodItem: async (id: number): Promise<FoodItem | undefined> => {
@@ -123,15 +205,32 @@ export const createLocalStorageAPI = () => {
       return newFoodItem;
     },
     
+    updateFoodItem: async (id: number, updates: Partial<Omit<FoodItem, 'id' | 'userId'>>): Promise<FoodItem | undefined> => {
+      const itemIndex = data.foodItems.findIndex(item => item.id === id);
+      if (itemIndex < 0) return undefined;
+      
+      const updatedFoodItem = { ...data.foodItems[itemIndex], ...updates };
+      data.foodItems[itemIndex] = updatedFoodItem;
+      saveData();
+      return updatedFoodItem;
+    },
+    
+    deleteFoodItem: async (id: number): Promise<boolean> => {
+      const itemIndex = data.foodItems.findIndex(item => item.id === id);
+      if (itemIndex < 0) return false;
+      
+      data.foodItems.splice(itemIndex, 1);
+      saveData();
+      return true;
+    },
+    
     // Meal methods
     getMeals: async (userId: number): Promise<Meal[]> => {
       return data.meals.filter(meal => meal.userId === userId);
     },
     
-    getMealsByDate: async (userId: number, date: Date): Promise<Meal[]> => {
-      return data.meals.filter(meal => 
-        meal.userId === userId && isSameDay(new Date(meal.date), date)
-      );
+    getMealsByDate: async (userId: number, date: string): Promise<Meal[]> => {
+      return data.meals.filter(meal => meal.userId === userId && meal.date === date);
     },
     
     getMeal: async (id: number): Promise<Meal | undefined> => {
@@ -143,12 +242,28 @@ export const createLocalStorageAPI = () => {
       data.meals.push(newMeal);
       
       // Update daily progress
-      updateDailyProgressAfterMeal(newMeal);
+      recalculateDailyProgress(newMeal.userId, newMeal.date);
       
       saveData();
       return newMeal;
     },
     
+    updateMeal: async (id: number, updates: Partial<Omit<Meal, 'id' | 'userId'>>): Promise<Meal | undefined> => {
+      const mealIndex = data.meals.findIndex(meal => meal.id === id);
+      if (mealIndex < 0) return undefined;
+      
+      const meal = data.meals[mealIndex];
+      const updatedMeal = { ...meal, ...updates };
+      data.meals[mealIndex] = updatedMeal;
+      
+      // Rebuild both days, so a meal moved to another date updates each of them
+      recalculateDailyProgress(meal.userId, meal.date);
+      recalculateDailyProgress(updatedMeal.userId, updatedMeal.date);
+      
+      saveData();
+      return updatedMeal;
+    },
+    
     deleteMeal: async (id: number): Promise<boolean> => {
       const mealIndex = data.meals.findIndex(meal => meal.id === id);
       if (mealIndex >= 0) {
@@ -156,7 +271,7 @@ export const createLocalStorageAPI = () => {
         data.meals.splice(mealIndex, 1);
         
         // Update daily progress after deletion
-        updateDailyProgressAfterMealDeletion(meal);
+        recalculateDailyProgress(meal.userId, meal.date);
         
         saveData();
         return true;
@@ -164,6 +279,76 @@ export const createLocalStorageAPI = () => {
       return false;
     },
     
+    // Meal template methods
+    getMealTemplates: async (userId: number): Promise<MealTemplate[]> => {
+      return data.mealTemplates.filter(template => template.userId === userId);
+    },
+    
+    getMealTemplate: async (id: number): Promise<MealTemplate | undefined> => {
+      return data.mealTemplates.find(template => template.id === id);
+    },
+    
+    createMealTemplate: async (template: Omit<MealTemplate, 'id'>): Promise<MealTemplate> => {
+      const newTemplate = { ...template, id: getNewId(data.mealTemplates) };
+      data.mealTemplates.push(newTemplate);
+      saveData();
+      return newTemplate;
+    },
+    
+    updateMealTemplate: async (id: number, updates: Partial<Omit<MealTemplate, 'id' | 'userId'>>): Promise<MealTemplate | undefined> => {
+      const templateIndex = data.mealTemplates.findIndex(template => template.id === id);
+      if (templateIndex < 0) return undefined;
+      
+      const updatedTemplate = { ...data.mealTemplates[templateIndex], ...updates };
+      data.mealTemplates[templateIndex] = updatedTemplate;
+      saveData();
+      return updatedTemplate;
+    },
+    
+    deleteMealTemplate: async (id: number): Promise<boolean> => {
+      const templateIndex = data.mealTemplates.findIndex(template => template.id === id);
+      if (templateIndex < 0) return false;
+      
+      data.mealTemplates.splice(templateIndex, 1);
+      saveData();
+      return true;
+    },
+    
+    // Recipe methods
+    getRecipes: async (userId: number): Promise<Recipe[]> => {
+      return data.recipes.filter(recipe => recipe.userId === userId);
+    },
+    
+    getRecipe: async (id: number): Promise<Recipe | undefined> => {
+      return data.recipes.find(recipe => recipe.id === id);
+    },
+    
+    createRecipe: async (recipe: Omit<Recipe, 'id'>): Promise<Recipe> => {
+      const newRecipe = { ...recipe, id: getNewId(data.recipes) };
+      data.recipes.push(newRecipe);
+      saveData();
+      return newRecipe;
+    },
+    
+    updateRecipe: async (id: number, updates: Partial<Omit<Recipe, 'id' | 'userId'>>): Promise<Recipe | undefined> => {
+      const recipeIndex = data.recipes.findIndex(recipe => recipe.id === id);
+      if (recipeIndex < 0) return undefined;
+      
+      const updatedRecipe = { ...data.recipes[recipeIndex], ...updates };
+      data.recipes[recipeIndex] = updatedRecipe;
+      saveData();
+      return updatedRecipe;
+    },
+    
+    deleteRecipe: async (id: number): Promise<boolean> => {
+      const recipeIndex = data.recipes.findIndex(recipe => recipe.id === id);
+      if (recipeIndex < 0) return false;
+      
+      data.recipes.splice(recipeIndex, 1);
+      saveData();
+      return true;
+    },
+    
     // Exercise methods
     getExercises: async (): Promise<Exercise[]> => {
       return data.exercises;
@@ -185,10 +370,8 @@ export const createLocalStorageAPI = () => {
       return data.workouts.filter(workout => workout.userId === userId);
     },
     
-    getWorkoutsByDate: async (userId: number, date: Date): Promise<Workout[]> => {
-      return data.workouts.filter(workout => 
-        workout.userId === userId && isSameDay(new Date(workout.date), date)
-      );
+    getWorkoutsByDate: async (userId: number, date: string): Promise<Workout[]> => {
+      return data.workouts.filter(workout => workout.userId === userId && workout.date === date);
     },
     
     getWorkout: async (id: number): Promise<Workout | undefined> => {
@@ -200,12 +383,28 @@ export const createLocalStorageAPI = () => {
       data.workouts.push(newWorkout);
       
       // Update daily progress
-      updateDailyProgressAfterWorkout(newWorkout);
+      recalculateDailyProgress(newWorkout.userId, newWorkout.date);
       
       saveData();
       return newWorkout;
     },
     
+    updateWorkout: async (id: number, updates: Partial<Omit<Workout, 'id' | 'userId'>>): Promise<Workout | undefined> => {
+      const workoutIndex = data.workouts.findIndex(workout => workout.id === id);
+      if (workoutIndex < 0) return undefined;
+      
+      const workout = data.workouts[workoutIndex];
+      const updatedWorkout = { ...workout, ...updates };
+      data.workouts[workoutIndex] = updatedWorkout;
+      
+      // Rebuild both days, so a workout moved to another date updates each of them
+      recalculateDailyProgress(workout.userId, workout.date);
+      recalculateDailyProgress(updatedWorkout.userId, updatedWorkout.date);
+      
+      saveData();
+      return updatedWorkout;
+    },
+    
     deleteWorkout: async (id: number): Promise<boolean> => {
       const workoutIndex = data.workouts.findIndex(workout => workout.id === id);
       if (workoutIndex >= 0) {
@@ -213,7 +412,7 @@ export const createLocalStorageAPI = () => {
         data.workouts.splice(workoutIndex, 1);
         
         // Update daily progress after deletion
-        updateDailyProgressAfterWorkoutDeletion(workout);
+        recalculateDailyProgress(workout.userId, workout.date);
         
         saveData();
         return true;
@@ -222,15 +421,20 @@ export const createLocalStorageAPI = () => {
     },
     
     // Progress methods
-    getDailyProgress: async (userId: number, date: Date): Promise<DailyProgress | undefined> => {
-      return data.dailyProgress.find(progress => 
-        progress.userId === userId && isSameDay(new Date(progress.date), date)
-      );
+    getDailyProgress: async (userId: number, date: string): Promise<DailyProgress | undefined> => {
+      return data.dailyProgress.find(progress => progress.userId === userId && progress.date === date);
+    },
+    
+    getDailyProgressRange: async (userId: number, from: string, to: string): Promise<DailyProgress[]> => {
+      // Date keys sort lexically in calendar order
+      return data.dailyProgress
+        .filter(progress => progress.userId === userId && progress.date >= from && progress.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date));
     },
     
     createOrUpdateDailyProgress: async (progress: Omit<DailyProgress, 'id'>): Promise<DailyProgress> => {
       const existingIndex = data.dailyProgress.findIndex(p => 
-        p.userId === progress.userId && isSameDay(new Date(p.date), new Date(progress.date))
+        p.userId === progress.userId && p.date === progress.date
       );
       
       if (existingIndex >= 0) {
@@ -246,173 +450,32 @@ export const createLocalStorageAPI = () => {
         saveData();
         return newProgress;
       }
+    },
+    
+    // Copy a day's meals and/or workouts onto another date
+    copyDay: async (userId: number, from: string, to: string, include: DayCopyKind[]): Promise<CopiedDay> => {
+      const copied: CopiedDay = { meals: [], workouts: [] };
+      
+      if (include.includes('meals')) {
+        for (const meal of data.meals.filter(meal => meal.userId === userId && meal.date === from)) {
+          const newMeal = { ...meal, date: to, id: getNewId(data.meals) };
+          data.meals.push(newMeal);
+          copied.meals.push(newMeal);
+        }
+      }
+      
+      if (include.includes('workouts')) {
+        for (const workout of data.workouts.filter(workout => workout.userId === userId && workout.date === from)) {
+          const newWorkout = { ...workout, date: to, id: getNewId(data.workouts) };
+          data.workouts.push(newWorkout);
+          copied.workouts.push(newWorkout);
+        }
+      }
+      
+      recalculateDailyProgress(userId, to);
+      
+      saveData();
+      return copied;
     }
   };
 };
-
-// Helper functions for updating daily progress
-function updateDailyProgressAfterMeal(meal: Meal) {
-  let data = loadFromStorage();
-  
-  const dateKey = new Date(meal.date).toISOString().split('T')[0];
-  const existingProgress = data.dailyProgress.find(p => 
-    p.userId === meal.userId && new Date(p.date).toISOString().split('T')[0] === dateKey
-  );
-  
-  if (existingProgress) {
-    // Update existing progress
-    existingProgress.caloriesConsumed = (existingProgress.caloriesConsumed || 0) + meal.totalCalories;
-    existingProgress.proteinConsumed = (existingProgress.proteinConsumed || 0) + meal.totalProtein;
-    
-    // Find the index and replace
-    const index = data.dailyProgress.findIndex(p => p.id === existingProgress.id);
-    if (index >= 0) {
-      data.dailyProgress[index] = existingProgress;
-    }
-  } else {
-    // Create new progress
-    const newProgress: DailyProgress = {
-      id: Math.max(...data.dailyProgress.map(p => p.id), 0) + 1,
-      userId: meal.userId,
-      date: new Date(meal.date),
-      caloriesConsumed: meal.totalCalories,
-      proteinConsumed: meal.totalProtein,
-      caloriesBurned: 0,
-      carbsConsumed: 0,
-      fatConsumed: 0,
-      sugarConsumed: 0,
-      workoutMinutes: 0,
-      rowingMeters: 0
-    };
-    data.dailyProgress.push(newProgress);
-  }
-  
-  saveToStorage(data);
-}
-
-function updateDailyProgressAfterMealDeletion(meal: Meal) {
-  let data = loadFromStorage();
-  
-  const dateKey = new Date(meal.date).toISOString().split('T')[0];
-  const existingProgress = data.dailyProgress.find(p => 
-    p.userId === meal.userId && new Date(p.date).toISOString().split('T')[0] === dateKey
-  );
-  
-  if (existingProgress) {
-    // Update existing progress
-    existingProgress.caloriesConsumed = Math.max(0, (existingProgress.caloriesConsumed || 0) - meal.totalCalories);
-    existingProgress.proteinConsumed = Math.max(0, (existingProgress.proteinConsumed || 0) - meal.totalProtein);
-    
-    // Find the index and replace
-    const index = data.dailyProgress.findIndex(p => p.id === existingProgress.id);
-    if (index >= 0) {
-      data.dailyProgress[index] = existingProgress;
-    }
-  }
-  
-  saveToStorage(data);
-}
-
-function updateDailyProgressAfterWorkout(workout: Workout) {
-  let data = loadFromStorage();
-  
-  // Extract workout details from items JSON
-  let workoutDetails;
-  try {
-    if (typeof workout.details === 'string') {
-      workoutDetails = JSON.parse(workout.details);
-    } else {
-      workoutDetails = workout.details;
-    }
-  } catch (e) {
-    workoutDetails = {};
-    console.error('Error parsing workout details:', e);
-  }
-  
-  const dateKey = new Date(workout.date).toISOString().split('T')[0];
-  const existingProgress = data.dailyProgress.find(p => 
-    p.userId === workout.userId && new Date(p.date).toISOString().split('T')[0] === dateKey
-  );
-  
-  // Calculate calories burned and workout minutes
-  const caloriesBurned = workout.caloriesBurned || 0;
-  const workoutMinutes = workout.durationMinutes || 0;
-  
-  // Get rowing meters if available
-  const rowingMeters = workoutDetails?.rowingMeters || 0;
-  
-  if (existingProgress) {
-    // Update existing progress
-    existingProgress.caloriesBurned = (existingProgress.caloriesBurned || 0) + caloriesBurned;
-    existingProgress.workoutMinutes = (existingProgress.workoutMinutes || 0) + workoutMinutes;
-    existingProgress.rowingMeters = (existingProgress.rowingMeters || 0) + rowingMeters;
-    
-    // Find the index and replace
-    const index = data.dailyProgress.findIndex(p => p.id === existingProgress.id);
-    if (index >= 0) {
-      data.dailyProgress[index] = existingProgress;
-    }
-  } else {
-    // Create new progress
-    const newProgress: DailyProgress = {
-      id: Math.max(...data.dailyProgress.map(p => p.id), 0) + 1,
-      userId: workout.userId,
-      date: new Date(workout.date),
-      caloriesConsumed: 0,
-      proteinConsumed: 0,
-      caloriesBurned: caloriesBurned,
-      carbsConsumed: 0,
-      fatConsumed: 0,
-      sugarConsumed: 0,
-      workoutMinutes: workoutMinutes,
-      rowingMeters: rowingMeters
-    };
-    data.dailyProgress.push(newProgress);
-  }
-  
-  saveToStorage(data);
-}
-
-function updateDailyProgressAfterWorkoutDeletion(workout: Workout) {
-  let data = loadFromStorage();
-  
-  // Extract workout details from items JSON
-  let workoutDetails;
-  try {
-    if (typeof workout.details === 'string') {
-      workoutDetails = JSON.parse(workout.details);
-    } else {
-      workoutDetails = workout.details;
-    }
-  } catch (e) {
-    workoutDetails = {};
-    console.error('Error parsing workout details:', e);
-  }
-  
-  const dateKey = new Date(workout.date).toISOString().split('T')[0];
-  const existingProgress = data.dailyProgress.find(p => 
-    p.userId === workout.userId && new Date(p.date).toISOString().split('T')[0] === dateKey
-  );
-  
-  // Calculate calories burned and workout minutes
-  const caloriesBurned = workout.caloriesBurned || 0;
-  const workoutMinutes = workout.durationMinutes || 0;
-  
-  // Get rowing meters if available
-  const rowingMeters = workoutDetails?.rowingMeters || 0;
-  
-  if (existingProgress) {
-    // Update existing progress
-    existingProgress.caloriesBurned = Math.max(0, (existingProgress.caloriesBurned || 0) - caloriesBurned);
-    existingProgress.workoutMinutes = Math.max(0, (existingProgress.workoutMinutes || 0) - workoutMinutes);
-    existingProgress.rowingMeters = Math.max(0, (existingProgress.rowingMeters || 0) - rowingMeters);
-    
-    // Find the index and replace
-    const index = data.dailyProgress.findIndex(p => p.id === existingProgress.id);
-    if (index >= 0) {
-      data.dailyProgress[index] = existingProgress;
-    }
-  }
-  
-  saveToStorage(data);
-}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+// Stored hashes look like "<hex derived key>.<hex salt>"
+const HASH_PATTERN = new RegExp(`^[0-9a-f]{${KEY_LENGTH * 2}}\\.[0-9a-f]{${SALT_BYTES * 2}}$`);
+
+export interface PasswordCheck {
+  valid: boolean;
+  // True when the stored value predates hashing and should be replaced
+  needsRehash: boolean;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString("hex");
+  const derived = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+export function isHashedPassword(stored: string): boolean {
+  return HASH_PATTERN.test(stored);
+}
+
+export async function verifyPassword(supplied: string, stored: string): Promise<PasswordCheck> {
+  if (!isHashedPassword(stored)) {
+    // Legacy plaintext row - compare in constant time, then ask the caller to rehash
+    const suppliedBuf = Buffer.from(supplied);
+    const storedBuf = Buffer.from(stored);
+    const valid = suppliedBuf.length === storedBuf.length && timingSafeEqual(suppliedBuf, storedBuf);
+    return { valid, needsRehash: valid };
+  }
+
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, KEY_LENGTH)) as Buffer;
+  return { valid: timingSafeEqual(hashedBuf, suppliedBuf), needsRehash: false };
+}
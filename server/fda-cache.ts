@@ -0,0 +1,158 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import { fdcBaseUrl, DEFAULT_FDC_BASE_URL } from "./fdc";
+import { fdcGet, FdcError } from "./fdc-client";
+import type { InsertFdaCacheEntry } from "@shared/schema";
+import type { FdaSearchQuery } from "@shared/fda-search";
+import { normalizeFdcFood, type NormalizedFood, type FdcFood, type FdcSearchResponse } from "@shared/normalized-food";
+
+// Search results change as FDA adds foods; a food's own record rarely does
+export const FDA_SEARCH_TTL_MS = 24 * 60 * 60 * 1000;
+export const FDA_FOOD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How long a connection check's outcome, good or bad, is reused
+const FDA_STATUS_TTL_MS = 60 * 1000;
+
+// How often expired entries are swept out of the table
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// HIT: served from a fresh entry. MISS: fetched from FDA and cached.
+// STALE: FDA could not be reached, so an expired entry was served instead.
+export type FdaCacheStatus = "HIT" | "MISS" | "STALE";
+
+export interface FdaCacheResult {
+  data: unknown;
+  status: FdaCacheStatus;
+  fetchedAt?: Date;
+  expiresAt?: Date;
+  hits?: number;
+}
+
+// Process-wide counts, reported as a hit ratio in the response headers
+const stats = { hits: 0, misses: 0, stale: 0 };
+let lastPurge = 0;
+let lastStatusCheck: { checkedAt: number; result: Promise<void> } | undefined;
+
+// "  Greek   Yogurt " and "greek yogurt" are the same search
+export function normalizeFdaQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// Responses from another FDC server, like the local stand-in, are kept apart from USDA's
+const keyScope = () => (fdcBaseUrl() === DEFAULT_FDC_BASE_URL ? "" : `${fdcBaseUrl()}|`);
+
+export const fdaSearchCacheKey = (search: FdaSearchQuery) =>
+  `${keyScope()}search:${search.pageSize}:${search.pageNumber}:${[...search.dataType].sort().join(",")}:` +
+  `${normalizeFdaQuery(search.brandOwner ?? "")}:${search.sort}:${normalizeFdaQuery(search.q)}`;
+
+export const fdaFoodCacheKey = (fdcId: string | number) => `${keyScope()}food:${fdcId}`;
+
+// Serve a cached FDA response if it is still fresh, otherwise fetch and store it.
+// Failures are thrown as FdcError and never cached. While FDA is down, rate
+// limited or slow, an expired entry is better than nothing.
+export async function cachedFdaFetch(
+  key: string,
+  path: string,
+  params: Record<string, string | number | undefined>,
+  ttlMs: number
+): Promise<FdaCacheResult> {
+  const now = new Date();
+  const cached = await storage.getFdaCacheEntry(key);
+
+  if (cached && cached.expiresAt > now) {
+    stats.hits++;
+    await storage.recordFdaCacheHit(key);
+    return {
+      data: cached.response,
+      status: "HIT",
+      fetchedAt: cached.fetchedAt,
+      expiresAt: cached.expiresAt,
+      hits: cached.hits + 1,
+    };
+  }
+
+  let data: unknown;
+  try {
+    data = await fdcGet(path, params);
+  } catch (error) {
+    // A food FDA no longer has, or a key it rejects, won't be fixed by old data
+    const recoverable = error instanceof FdcError && error.code !== "not_found" && error.code !== "key_invalid";
+    if (!cached || !recoverable) throw error;
+
+    console.warn(`FDA request failed, serving expired cache entry for ${key}:`, error.message);
+    stats.stale++;
+    return { data: cached.response, status: "STALE", fetchedAt: cached.fetchedAt, expiresAt: cached.expiresAt, hits: cached.hits };
+  }
+
+  stats.misses++;
+
+  const entry = await storage.putFdaCacheEntry({
+    key,
+    response: data as InsertFdaCacheEntry["response"],
+    expiresAt: new Date(now.getTime() + ttlMs),
+  });
+  purgeExpiredEntries(now);
+  return { data, status: "MISS", fetchedAt: entry.fetchedAt, expiresAt: entry.expiresAt, hits: 0 };
+}
+
+// Check that FDA answers searches with a one-result request. The outcome is
+// shared for a minute, so checks don't eat into the API key's rate limit.
+// Failures are thrown as FdcError.
+export function checkFdaConnection(): Promise<void> {
+  const now = Date.now();
+  if (!lastStatusCheck || now - lastStatusCheck.checkedAt > FDA_STATUS_TTL_MS) {
+    const result = fdcGet("/foods/search", { query: "apple", pageSize: 1 }).then(() => undefined);
+    result.catch(() => {}); // callers see the failure; this only keeps it from going unhandled
+    lastStatusCheck = { checkedAt: now, result };
+  }
+  return lastStatusCheck.result;
+}
+
+// Foods from cached responses that mention every term, so names can be matched
+// without asking FDA. Search entries hold a page of foods, food entries one.
+export async function findCachedFdaFoods(terms: string[], limit = 10): Promise<NormalizedFood[]> {
+  // Entries are matched on substrings, so drop the last letter of longer words
+  // to let "candy" find "candies" and "tomato" find "tomatoes"
+  const stems = terms.map((term) => (term.length > 4 ? term.slice(0, -1) : term));
+  const entries = await storage.findFdaCacheEntries(stems, limit);
+  return entries
+    .flatMap((entry) => {
+      const response = entry.response as FdcSearchResponse & FdcFood;
+      return Array.isArray(response.foods) ? response.foods : [response];
+    })
+    .map(normalizeFdcFood);
+}
+
+// Sweep at most once an hour, without holding up the request that triggered it
+function purgeExpiredEntries(now: Date) {
+  if (now.getTime() - lastPurge < PURGE_INTERVAL_MS) return;
+  lastPurge = now.getTime();
+
+  storage.deleteExpiredFdaCacheEntries(now).catch((error) => {
+    console.error("Failed to purge expired FDA cache entries:", error);
+  });
+}
+
+// Describe how a response was served:
+//   X-FDA-Cache            HIT, MISS or STALE
+//   X-FDA-Cache-Age        seconds since the response was fetched from FDA
+//   X-FDA-Cache-Expires    when the entry stops being served as fresh
+//   X-FDA-Cache-Hits       lookups served from this entry
+//   X-FDA-Cache-Hit-Ratio  share of all lookups since startup served from the cache
+export function setFdaCacheHeaders(res: Response, result: FdaCacheResult) {
+  res.set("X-FDA-Cache", result.status);
+
+  if (result.fetchedAt) {
+    res.set("X-FDA-Cache-Age", String(Math.max(0, Math.floor((Date.now() - result.fetchedAt.getTime()) / 1000))));
+  }
+  if (result.expiresAt) {
+    res.set("X-FDA-Cache-Expires", result.expiresAt.toISOString());
+  }
+  if (result.hits !== undefined) {
+    res.set("X-FDA-Cache-Hits", String(result.hits));
+  }
+
+  const lookups = stats.hits + stats.misses + stats.stale;
+  const served = stats.hits + stats.stale;
+  res.set("X-FDA-Cache-Hit-Ratio", lookups > 0 ? (served / lookups).toFixed(3) : "0");
+}
@@ -0,0 +1,186 @@
+import { fdcUrl, isFdcConfigured } from "./fdc";
+import type { FdcErrorCode } from "@shared/fdc-errors";
+
+// How hard to try before giving up on FoodData Central. Each can be set in the
+// environment: FDC_TIMEOUT_MS per attempt, FDC_MAX_RETRIES after the first
+// attempt, and FDC_BACKOFF_MS before the first retry (doubling after that).
+export interface FdcClientOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+}
+
+const DEFAULT_OPTIONS: FdcClientOptions = {
+  timeoutMs: 8000,
+  maxRetries: 2,
+  backoffMs: 500,
+  maxBackoffMs: 8000,
+};
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function fdcClientOptions(): FdcClientOptions {
+  return {
+    timeoutMs: envNumber("FDC_TIMEOUT_MS", DEFAULT_OPTIONS.timeoutMs),
+    maxRetries: envNumber("FDC_MAX_RETRIES", DEFAULT_OPTIONS.maxRetries),
+    backoffMs: envNumber("FDC_BACKOFF_MS", DEFAULT_OPTIONS.backoffMs),
+    maxBackoffMs: DEFAULT_OPTIONS.maxBackoffMs,
+  };
+}
+
+// The HTTP status the app answers with for each failure
+const ERROR_STATUS: Record<FdcErrorCode, number> = {
+  not_configured: 503,
+  key_invalid: 502,
+  quota_exhausted: 503,
+  upstream_down: 502,
+  timeout: 504,
+  bad_response: 502,
+  not_found: 404,
+};
+
+export interface FdcErrorOptions {
+  upstreamStatus?: number; // the status FDC answered with, if it answered
+  exhausted?: boolean; // a rate limit with no requests left, which retrying can't help
+}
+
+export class FdcError extends Error {
+  readonly code: FdcErrorCode;
+  readonly upstreamStatus?: number;
+  readonly exhausted: boolean;
+
+  constructor(code: FdcErrorCode, message: string, options: FdcErrorOptions = {}) {
+    super(message);
+    this.name = "FdcError";
+    this.code = code;
+    this.upstreamStatus = options.upstreamStatus;
+    this.exhausted = options.exhausted ?? false;
+  }
+
+  get httpStatus(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  // Failures worth another attempt: the next one may well succeed
+  get retryable(): boolean {
+    if (this.exhausted) return false;
+    return this.code === "upstream_down" || this.code === "timeout" || this.code === "quota_exhausted";
+  }
+}
+
+// api.data.gov, which fronts FDC, explains rejections as { error: { code, message } }
+function gatewayErrorCode(body: unknown): string | undefined {
+  if (typeof body !== "object" || body === null || !("error" in body)) return undefined;
+
+  const error = body.error;
+  if (typeof error !== "object" || error === null || !("code" in error)) return undefined;
+  return typeof error.code === "string" ? error.code : undefined;
+}
+
+function errorForResponse(response: globalThis.Response, body: unknown): FdcError {
+  const upstreamStatus = response.status;
+  const gatewayCode = gatewayErrorCode(body);
+
+  if (upstreamStatus === 429 || gatewayCode === "OVER_RATE_LIMIT") {
+    // A rate limit with requests left is momentary; with none left, retrying can't help
+    const exhausted = response.headers.get("X-RateLimit-Remaining") === "0";
+    return new FdcError("quota_exhausted", "FDA API rate limit reached", { upstreamStatus, exhausted });
+  }
+  if (upstreamStatus === 401 || upstreamStatus === 403 || gatewayCode?.startsWith("API_KEY_")) {
+    return new FdcError("key_invalid", "FDA API key was rejected", { upstreamStatus });
+  }
+  if (upstreamStatus === 404) {
+    return new FdcError("not_found", "Not found in FoodData Central", { upstreamStatus });
+  }
+  if (upstreamStatus >= 500) {
+    return new FdcError("upstream_down", `FoodData Central is unavailable (status ${upstreamStatus})`, {
+      upstreamStatus,
+    });
+  }
+  return new FdcError("bad_response", `FoodData Central rejected the request (status ${upstreamStatus})`, {
+    upstreamStatus,
+  });
+}
+
+async function readJson(response: globalThis.Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined; // an HTML error page, or a truncated body
+  }
+}
+
+// One request, bounded by the timeout
+async function attempt(url: string, timeoutMs: number): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: "application/json" } });
+    const body = await readJson(response);
+
+    if (!response.ok) {
+      throw errorForResponse(response, body);
+    }
+    if (body === undefined) {
+      throw new FdcError("bad_response", "FoodData Central sent a response that isn't JSON", {
+        upstreamStatus: response.status,
+      });
+    }
+    return body;
+  } catch (error) {
+    if (error instanceof FdcError) throw error;
+    if (controller.signal.aborted) {
+      throw new FdcError("timeout", `FoodData Central did not respond within ${timeoutMs} ms`);
+    }
+    throw new FdcError("upstream_down", `Could not reach FoodData Central: ${(error as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Exponential backoff with some jitter, so waiting clients don't retry in step
+const backoffDelay = (options: FdcClientOptions, retry: number) =>
+  Math.min(options.maxBackoffMs, options.backoffMs * 2 ** retry) * (0.75 + Math.random() * 0.5);
+
+async function getWithRetries(url: string, options: FdcClientOptions): Promise<unknown> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(url, options.timeoutMs);
+    } catch (error) {
+      // attempt only throws FdcError
+      const fdcError = error as FdcError;
+      if (!fdcError.retryable || retry >= options.maxRetries) throw fdcError;
+
+      const delay = backoffDelay(options, retry);
+      console.warn(`FDA request failed (${fdcError.code}), retrying in ${Math.round(delay)} ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Identical requests already on their way share one response
+const inFlight = new Map<string, Promise<unknown>>();
+
+// GET an FDC endpoint, e.g. fdcGet("/foods/search", { query: "banana" }).
+// Failures are thrown as FdcError.
+export function fdcGet(path: string, params: Record<string, string | number | undefined> = {}): Promise<unknown> {
+  if (!isFdcConfigured()) {
+    return Promise.reject(new FdcError("not_configured", "FDA API key is not configured"));
+  }
+
+  const url = fdcUrl(path, params);
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+
+  const request = getWithRetries(url, fdcClientOptions()).finally(() => inFlight.delete(url));
+  inFlight.set(url, request);
+  return request;
+}
@@ -0,0 +1,216 @@
+import fs from "fs";
+import path from "path";
+import type { IStorage } from "./storage";
+import type { InsertNutrientFood } from "@shared/schema";
+
+// data_type values in food.csv, and how the API names them
+export const FDC_CSV_DATA_TYPES: Record<string, string> = {
+  foundation_food: "Foundation",
+  sr_legacy_food: "SR Legacy",
+  survey_fndds_food: "Survey (FNDDS)",
+  branded_food: "Branded",
+};
+
+// Imported when no data types are given. Branded foods run to millions of rows,
+// all held in memory until food_nutrient.csv has been read, so they are only
+// imported when asked for by name.
+export const DEFAULT_FDC_CSV_DATA_TYPES = ["foundation_food", "sr_legacy_food", "survey_fndds_food"];
+
+type NutrientColumn = "calories" | "protein" | "carbs" | "fat" | "sugar" | "fiber" | "sodium";
+
+// nutrient_nbr values in nutrient.csv for each column, best first. Foundation
+// foods often only report energy and sugars under their newer numbers.
+const NUTRIENT_NUMBERS: Record<NutrientColumn, string[]> = {
+  calories: ["208", "957", "958"],
+  protein: ["203"],
+  carbs: ["205", "205.2"],
+  fat: ["204"],
+  sugar: ["269", "269.3"],
+  fiber: ["291"],
+  sodium: ["307"],
+};
+
+export interface FdcCsvImportOptions {
+  dataTypes?: string[]; // food.csv data_type values; defaults to DEFAULT_FDC_CSV_DATA_TYPES
+  batchSize?: number;
+  onProgress?: (message: string) => void;
+}
+
+export interface FdcCsvImportResult {
+  imported: number;
+  skipped: number; // foods with none of the nutrients we track
+}
+
+// Rows of a CSV file as objects keyed by the header row. Reads the file as a
+// stream, so quoted fields may span chunks (and lines) without loading it whole.
+export async function* readCsvRows(file: string): AsyncGenerator<Record<string, string>> {
+  const stream = fs.createReadStream(file, { encoding: "utf-8" });
+
+  let header: string[] | undefined;
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let quoteInQuotes = false; // saw a quote inside a quoted field: either "" or the closing quote
+
+  const endRow = (): Record<string, string> | undefined => {
+    row.push(field);
+    const values = row;
+    row = [];
+    field = "";
+
+    if (!header) {
+      header = values.map((name, index) => (index === 0 ? name.replace(/^\uFEFF/, "") : name).trim());
+      return undefined;
+    }
+    if (values.length === 1 && values[0] === "") return undefined;
+    return Object.fromEntries(header.map((name, index) => [name, values[index] ?? ""]));
+  };
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    const rows: Record<string, string>[] = [];
+
+    for (const char of chunk) {
+      if (quoteInQuotes) {
+        quoteInQuotes = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      } else if (inQuotes) {
+        if (char === '"') {
+          quoteInQuotes = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n") {
+        const parsed = endRow();
+        if (parsed) rows.push(parsed);
+      } else if (char !== "\r") {
+        field += char;
+      }
+    }
+
+    yield* rows;
+  }
+
+  if (field !== "" || row.length > 0) {
+    const parsed = endRow();
+    if (parsed) yield parsed;
+  }
+}
+
+const optional = (value: string | undefined) => (value && value.trim() !== "" ? value.trim() : null);
+
+const optionalNumber = (value: string | undefined) => {
+  const number = value === undefined || value.trim() === "" ? NaN : Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// Load a FoodData Central CSV download (food.csv, nutrient.csv, food_nutrient.csv,
+// and branded_food.csv / food_category.csv where present) into nutrient_foods.
+// Foods are gathered in memory and written once every file has been read, which
+// is why branded foods are left out unless dataTypes names them.
+export async function importFdcCsv(
+  storage: IStorage,
+  dir: string,
+  options: FdcCsvImportOptions = {},
+): Promise<FdcCsvImportResult> {
+  const dataTypes = new Set(options.dataTypes ?? DEFAULT_FDC_CSV_DATA_TYPES);
+  const batchSize = options.batchSize ?? 1000;
+  const progress = options.onProgress ?? (() => {});
+  const file = (name: string) => path.join(dir, name);
+
+  for (const name of ["food.csv", "nutrient.csv", "food_nutrient.csv"]) {
+    if (!fs.existsSync(file(name))) {
+      throw new Error(`${name} not found in ${dir}`);
+    }
+  }
+
+  // nutrient id -> the column it fills, and how good a source it is (0 is best)
+  const nutrientIds = new Map<string, { column: NutrientColumn; rank: number }>();
+  for await (const nutrient of readCsvRows(file("nutrient.csv"))) {
+    for (const [column, numbers] of Object.entries(NUTRIENT_NUMBERS) as [NutrientColumn, string[]][]) {
+      const rank = numbers.indexOf(nutrient.nutrient_nbr?.trim());
+      if (rank !== -1) {
+        nutrientIds.set(nutrient.id, { column, rank });
+      }
+    }
+  }
+
+  const categories = new Map<string, string>();
+  if (fs.existsSync(file("food_category.csv"))) {
+    for await (const category of readCsvRows(file("food_category.csv"))) {
+      categories.set(category.id, category.description);
+    }
+  }
+
+  const foods = new Map<number, InsertNutrientFood>();
+  for await (const row of readCsvRows(file("food.csv"))) {
+    if (!dataTypes.has(row.data_type)) continue;
+
+    const fdcId = Number(row.fdc_id);
+    if (!Number.isInteger(fdcId)) continue;
+
+    foods.set(fdcId, {
+      fdcId,
+      dataType: FDC_CSV_DATA_TYPES[row.data_type] ?? row.data_type,
+      description: row.description.trim(),
+      foodCategory: categories.get(row.food_category_id) ?? null,
+      publicationDate: optional(row.publication_date),
+    });
+  }
+  progress(`Read ${foods.size} foods`);
+
+  if (fs.existsSync(file("branded_food.csv"))) {
+    for await (const row of readCsvRows(file("branded_food.csv"))) {
+      const food = foods.get(Number(row.fdc_id));
+      if (!food) continue;
+
+      food.brandOwner = optional(row.brand_owner);
+      food.brandName = optional(row.brand_name);
+      food.gtinUpc = optional(row.gtin_upc);
+      food.ingredients = optional(row.ingredients);
+      food.servingSize = optionalNumber(row.serving_size);
+      food.servingSizeUnit = optional(row.serving_size_unit);
+      food.householdServingFullText = optional(row.household_serving_fulltext);
+      food.foodCategory = optional(row.branded_food_category) ?? food.foodCategory;
+    }
+  }
+
+  const ranks = new Map<number, Partial<Record<NutrientColumn, number>>>();
+  for await (const row of readCsvRows(file("food_nutrient.csv"))) {
+    const nutrient = nutrientIds.get(row.nutrient_id);
+    if (!nutrient) continue;
+
+    const fdcId = Number(row.fdc_id);
+    const food = foods.get(fdcId);
+    const amount = optionalNumber(row.amount);
+    if (!food || amount === null) continue;
+
+    const foodRanks = ranks.get(fdcId) ?? {};
+    const current = foodRanks[nutrient.column];
+    if (current === undefined || nutrient.rank < current) {
+      food[nutrient.column] = amount;
+      foodRanks[nutrient.column] = nutrient.rank;
+      ranks.set(fdcId, foodRanks);
+    }
+  }
+
+  // Foods with nothing to log are left out
+  const importable = Array.from(foods.values()).filter((food) => ranks.has(food.fdcId));
+  for (let start = 0; start < importable.length; start += batchSize) {
+    await storage.upsertNutrientFoods(importable.slice(start, start + batchSize));
+    progress(`Imported ${Math.min(start + batchSize, importable.length)} of ${importable.length}`);
+  }
+
+  return { imported: importable.length, skipped: foods.size - importable.length };
+}
@@ -0,0 +1,110 @@
+import express, { type Express } from "express";
+import fs from "fs";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+import type { FdcFood, FdcFoodNutrient } from "@shared/normalized-food";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Food detail records in FoodData Central's /food/{fdcId} format, one per file
+export const DEFAULT_FDC_FIXTURE_DIR = path.resolve(__dirname, "fixtures", "fdc");
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Search results list nutrients flat, with upper-case units, where detail
+// records nest them; this is the shape the real /foods/search returns
+function toSearchResult(food: FdcFood): FdcFood {
+  const { foodNutrients = [], foodPortions: _portions, labelNutrients: _label, foodCategory, ...fields } = food;
+  return {
+    ...fields,
+    foodCategory: (typeof foodCategory === "object" ? foodCategory.description : undefined) ?? food.brandedFoodCategory,
+    foodNutrients: foodNutrients.flatMap((item): FdcFoodNutrient[] =>
+      item.nutrient && item.amount !== undefined
+        ? [{
+            nutrientId: item.nutrient.id,
+            nutrientName: item.nutrient.name,
+            nutrientNumber: item.nutrient.number,
+            unitName: String(item.nutrient.unitName).toUpperCase(),
+            value: item.amount,
+          }]
+        : []
+    ),
+  };
+}
+
+export function loadFdcFixtures(fixtureDir = DEFAULT_FDC_FIXTURE_DIR): FdcFood[] {
+  return fs
+    .readdirSync(fixtureDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(fixtureDir, file), "utf-8")));
+}
+
+// A stand-in for the parts of the FoodData Central API this app calls:
+//   GET /fdc/v1/foods/search?query=&pageSize=&pageNumber=&dataType=&gtinUpc=&brandOwner=&sortBy=&sortOrder=
+//   GET /fdc/v1/food/:fdcId
+// Searches match when every word of the query appears in a food's description,
+// brand or barcode, and are otherwise in fixture order. API keys are accepted and ignored.
+export function createFdcStandIn(foods: FdcFood[] = loadFdcFixtures()): Express {
+  const app = express();
+  const router = express.Router();
+
+  router.get("/foods/search", (req, res) => {
+    const query = String(req.query.query ?? "").trim().toLowerCase();
+    const gtinUpc = req.query.gtinUpc ? String(req.query.gtinUpc) : undefined;
+    const dataTypes = req.query.dataType
+      ? String(req.query.dataType).split(",").map((type) => type.trim().toLowerCase())
+      : undefined;
+    const brandOwner = req.query.brandOwner ? String(req.query.brandOwner).toLowerCase() : undefined;
+    const sortBy = req.query.sortBy ? String(req.query.sortBy) : undefined;
+    const descending = String(req.query.sortOrder).toLowerCase() === "desc";
+    const pageSize = Math.min(Math.max(parseInt(String(req.query.pageSize)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const pageNumber = Math.max(parseInt(String(req.query.pageNumber)) || 1, 1);
+
+    const words = query.split(/\s+/).filter(Boolean);
+    const matches = foods.filter((food) => {
+      if (gtinUpc && food.gtinUpc !== gtinUpc) return false;
+      if (dataTypes && !dataTypes.includes(String(food.dataType).toLowerCase())) return false;
+      if (brandOwner && !String(food.brandOwner ?? "").toLowerCase().includes(brandOwner)) return false;
+
+      const text = [food.description, food.brandOwner, food.brandName, food.gtinUpc]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+
+    // Publication dates are written M/D/YYYY
+    const compare: ((a: FdcFood, b: FdcFood) => number) | undefined =
+      sortBy === "lowercaseDescription.keyword" ? (a, b) => String(a.description).toLowerCase().localeCompare(String(b.description).toLowerCase())
+      : sortBy === "publishedDate" ? (a, b) => (Date.parse(a.publicationDate ?? "") || 0) - (Date.parse(b.publicationDate ?? "") || 0)
+      : sortBy === "fdcId" ? (a, b) => (a.fdcId ?? 0) - (b.fdcId ?? 0)
+      : undefined;
+    if (compare) {
+      matches.sort((a, b) => compare(a, b) * (descending ? -1 : 1));
+    }
+
+    const start = (pageNumber - 1) * pageSize;
+    const totalPages = Math.ceil(matches.length / pageSize);
+    res.json({
+      totalHits: matches.length,
+      currentPage: pageNumber,
+      totalPages,
+      pageList: Array.from({ length: Math.min(totalPages, 10) }, (_, index) => index + 1),
+      foodSearchCriteria: { query, generalSearchInput: query, pageNumber, pageSize, gtinUpc, dataType: dataTypes, brandOwner, sortBy },
+      foods: matches.slice(start, start + pageSize).map(toSearchResult),
+    });
+  });
+
+  router.get("/food/:fdcId", (req, res) => {
+    const food = foods.find((candidate) => String(candidate.fdcId) === req.params.fdcId);
+    if (!food) {
+      return res.status(404).json({ error: "Not Found", message: `No food with fdcId ${req.params.fdcId}` });
+    }
+    res.json(food);
+  });
+
+  app.use("/fdc/v1", router);
+  return app;
+}
@@ -0,0 +1,51 @@
+import type { FdaSearchQuery, FdaSearchSort } from "@shared/fda-search";
+
+// Where FoodData Central requests go. Set FDC_BASE_URL to use another server,
+// such as the local stand-in (npm run fdc:stand-in), instead of USDA's.
+export const DEFAULT_FDC_BASE_URL = "https://api.nal.usda.gov/fdc/v1";
+
+export function fdcBaseUrl(): string {
+  return (process.env.FDC_BASE_URL || DEFAULT_FDC_BASE_URL).replace(/\/+$/, "");
+}
+
+// USDA's API needs a key; a server configured in its place may not
+export function isFdcConfigured(): boolean {
+  return !!process.env.FDA_API_KEY || fdcBaseUrl() !== DEFAULT_FDC_BASE_URL;
+}
+
+// Build a request URL, e.g. fdcUrl("/foods/search", { query: "banana", pageSize: 10 }).
+// Parameters left undefined are dropped.
+export function fdcUrl(path: string, params: Record<string, string | number | undefined> = {}): string {
+  const search = new URLSearchParams();
+  const apiKey = process.env.FDA_API_KEY;
+  if (apiKey) {
+    search.set("api_key", apiKey);
+  }
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      search.set(name, String(value));
+    }
+  }
+
+  const query = search.toString();
+  return `${fdcBaseUrl()}${path}${query ? `?${query}` : ""}`;
+}
+
+// FDC's sortBy/sortOrder for each sort. Relevance is FDC's default order.
+const FDC_SORTS: Record<FdaSearchSort, { sortBy?: string; sortOrder?: string }> = {
+  relevance: {},
+  name: { sortBy: "lowercaseDescription.keyword", sortOrder: "asc" },
+  newest: { sortBy: "publishedDate", sortOrder: "desc" },
+};
+
+// The /foods/search parameters for a search
+export function fdcSearchParams(search: FdaSearchQuery, query: string = search.q) {
+  return {
+    query,
+    pageSize: search.pageSize,
+    pageNumber: search.pageNumber,
+    dataType: search.dataType.length > 0 ? search.dataType.join(",") : undefined,
+    brandOwner: search.brandOwner,
+    ...FDC_SORTS[search.sort],
+  };
+}
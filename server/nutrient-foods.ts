@@ -0,0 +1,114 @@
+import type { IStorage } from "./storage";
+import { rankFdaFoods, type FdaSearchQuery } from "@shared/fda-search";
+import type { NutrientFood } from "@shared/schema";
+import { gtinForms, type Gtin } from "@shared/gtin";
+import {
+  normalizeFdcFood,
+  type NormalizedFood,
+  type NormalizedSearchResponse,
+  type NormalizedBarcodeResponse,
+} from "@shared/normalized-food";
+
+// FDA_SOURCE=local answers /api/fda/* from the imported nutrient_foods table
+// (npm run fdc:import) instead of the FoodData Central API
+export function useLocalFdaSource(): boolean {
+  return process.env.FDA_SOURCE === "local";
+}
+
+// How each column appears in FDC responses
+const NUTRIENT_COLUMNS = [
+  { key: "calories", id: 1008, number: "208", name: "Energy", unitName: "kcal" },
+  { key: "protein", id: 1003, number: "203", name: "Protein", unitName: "g" },
+  { key: "fat", id: 1004, number: "204", name: "Total lipid (fat)", unitName: "g" },
+  { key: "carbs", id: 1005, number: "205", name: "Carbohydrate, by difference", unitName: "g" },
+  { key: "fiber", id: 1079, number: "291", name: "Fiber, total dietary", unitName: "g" },
+  { key: "sugar", id: 2000, number: "269", name: "Sugars, total including NLEA", unitName: "g" },
+  { key: "sodium", id: 1093, number: "307", name: "Sodium, Na", unitName: "mg" },
+] as const;
+
+function descriptiveFields(food: NutrientFood) {
+  return {
+    fdcId: food.fdcId,
+    description: food.description,
+    dataType: food.dataType,
+    publicationDate: food.publicationDate ?? undefined,
+    brandOwner: food.brandOwner ?? undefined,
+    brandName: food.brandName ?? undefined,
+    gtinUpc: food.gtinUpc ?? undefined,
+    ingredients: food.ingredients ?? undefined,
+    servingSize: food.servingSize ?? undefined,
+    servingSizeUnit: food.servingSizeUnit ?? undefined,
+    householdServingFullText: food.householdServingFullText ?? undefined,
+  };
+}
+
+type NutrientKey = (typeof NUTRIENT_COLUMNS)[number]["key"];
+
+const presentNutrients = (food: Record<NutrientKey, number | null>) =>
+  NUTRIENT_COLUMNS.filter((nutrient) => food[nutrient.key] !== null);
+
+// Nutrient amounts per 100 g as a /foods/search result lists them
+function toFdcSearchNutrients(food: Record<NutrientKey, number | null>) {
+  return presentNutrients(food).map((nutrient) => ({
+    nutrientId: nutrient.id,
+    nutrientName: nutrient.name,
+    nutrientNumber: nutrient.number,
+    unitName: nutrient.unitName.toUpperCase(),
+    value: food[nutrient.key],
+  }));
+}
+
+// A row in the shape of a /foods/search result
+export function toFdcSearchFood(food: NutrientFood) {
+  return {
+    ...descriptiveFields(food),
+    foodCategory: food.foodCategory ?? undefined,
+    foodNutrients: toFdcSearchNutrients(food),
+  };
+}
+
+// A row in the shape of a /food/{fdcId} record
+export function toFdcFoodDetail(food: NutrientFood) {
+  return {
+    ...descriptiveFields(food),
+    foodCategory: food.foodCategory ? { description: food.foodCategory } : undefined,
+    foodNutrients: presentNutrients(food).map((nutrient) => ({
+      type: "FoodNutrient",
+      nutrient: { id: nutrient.id, number: nutrient.number, name: nutrient.name, unitName: nutrient.unitName },
+      amount: food[nutrient.key],
+    })),
+  };
+}
+
+// The local equivalents of the /api/fda/* responses
+export async function searchLocalFoods(storage: IStorage, search: FdaSearchQuery): Promise<NormalizedSearchResponse> {
+  const { foods, totalHits } = await storage.searchNutrientFoods({
+    query: search.q,
+    limit: search.pageSize,
+    offset: (search.pageNumber - 1) * search.pageSize,
+    dataTypes: search.dataType,
+    brandOwner: search.brandOwner,
+    sort: search.sort,
+  });
+  
+  const normalized = foods.map((food) => normalizeFdcFood(toFdcSearchFood(food)));
+  return {
+    totalHits,
+    currentPage: search.pageNumber,
+    totalPages: Math.ceil(totalHits / search.pageSize),
+    foods: search.sort === "relevance" ? rankFdaFoods(normalized, search.q, search.brandOwner) : normalized,
+  };
+}
+
+export async function getLocalFood(storage: IStorage, fdcId: number): Promise<NormalizedFood | undefined> {
+  const food = await storage.getNutrientFood(fdcId);
+  return food && normalizeFdcFood(toFdcFoodDetail(food));
+}
+
+// The CSVs write a barcode in whichever form the brand owner submitted, and
+// occasionally without its leading zeros
+export async function findLocalFoodsByUpc(storage: IStorage, gtin: Gtin): Promise<NormalizedBarcodeResponse> {
+  const forms = [...gtinForms(gtin), gtin.gtin14.replace(/^0+/, "")];
+  const foods = await storage.getNutrientFoodsByGtin(Array.from(new Set(forms)));
+  return { foods: foods.map((food) => normalizeFdcFood(toFdcSearchFood(food))) };
+}
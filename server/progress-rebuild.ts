@@ -0,0 +1,94 @@
+import type { IStorage } from "./storage";
+import type { DailyProgress } from "@shared/schema";
+import type { DayTotals } from "@shared/progress";
+
+export interface RebuildOptions {
+  userId?: number;
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  // Report what would change without writing anything
+  dryRun?: boolean;
+}
+
+export interface ProgressCorrection {
+  userId: number;
+  date: string; // YYYY-MM-DD
+  created: boolean;
+  changes: Partial<Record<keyof DayTotals, { from: number; to: number }>>;
+}
+
+// Floating point sums of reals can differ in the last digits
+const TOLERANCE = 0.01;
+
+// Recompute daily progress rows from the meals and workouts they summarise,
+// returning one entry per row that was missing or had drifted
+export async function rebuildDailyProgress(
+  storage: IStorage,
+  options: RebuildOptions = {},
+): Promise<ProgressCorrection[]> {
+  const users = options.userId !== undefined
+    ? [await storage.getUser(options.userId)].filter((user) => user !== undefined)
+    : await storage.getUsers();
+
+  const corrections: ProgressCorrection[] = [];
+
+  for (const user of users) {
+    for (const date of await collectDays(storage, user.id, options)) {
+      // Read and written under the user's progress lock, so a meal logged
+      // meanwhile can't be overwritten with totals from before it
+      const rebuilt = await storage.rebuildDayProgress(user.id, date, !!options.dryRun);
+
+      // A day with nothing logged and no row needs no row
+      if (!rebuilt) {
+        continue;
+      }
+
+      const changes = diffTotals(rebuilt.previous, rebuilt.totals);
+      if (rebuilt.previous && Object.keys(changes).length === 0) {
+        continue;
+      }
+
+      corrections.push({
+        userId: user.id,
+        date,
+        created: !rebuilt.previous,
+        changes,
+      });
+    }
+  }
+
+  return corrections;
+}
+
+// Every day in range that has a progress row, a meal or a workout
+async function collectDays(storage: IStorage, userId: number, options: RebuildOptions): Promise<string[]> {
+  const from = options.from ?? "0000-01-01";
+  const to = options.to ?? "9999-12-31";
+
+  const progress = await storage.getDailyProgressRange(userId, from, to);
+  const userMeals = await storage.getMeals(userId);
+  const userWorkouts = await storage.getWorkouts(userId);
+
+  const days = new Set<string>();
+  for (const { date } of [...progress, ...userMeals, ...userWorkouts]) {
+    if (date >= from && date <= to) {
+      days.add(date);
+    }
+  }
+
+  // Date keys sort lexically in calendar order
+  return Array.from(days).sort();
+}
+
+function diffTotals(existing: DailyProgress | undefined, totals: DayTotals): ProgressCorrection["changes"] {
+  const changes: ProgressCorrection["changes"] = {};
+
+  for (const field of Object.keys(totals) as (keyof DayTotals)[]) {
+    const current = existing?.[field] ?? 0;
+    if (!existing || Math.abs(current - totals[field]) > TOLERANCE) {
+      changes[field] = { from: current, to: totals[field] };
+    }
+  }
+
+  return changes;
+}
@@ -1,89 +1,204 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, toPublicUser } from "./auth";
 import { 
   insertMealSchema, 
   insertWorkoutSchema, 
-  insertUserSchema,
   insertFoodItemSchema,
+  updateFoodItemSchema,
   insertDailyProgressSchema,
+  updateUserSchema,
+  updateMealSchema,
+  updateWorkoutSchema,
+  insertMealTemplateSchema,
+  updateMealTemplateSchema,
+  logMealTemplateSchema,
+  copyDaySchema,
+  insertRecipeSchema,
+  updateRecipeSchema,
+  type RecipeIngredient,
   insertFoodSuggestionSchema,
   insertWorkoutSuggestionSchema,
+  insertBarcodeProductSchema,
+  updateBarcodeProductSchema,
 } from "@shared/schema";
+import { toDateKey, toTimeLabel, parseDateKey } from "@shared/dates";
+import { computeRecipeNutrition } from "@shared/recipes";
+import { foodItemPortion, scaleNutrients, type NutrientValues } from "@shared/units";
+import { summarizeRecentFoods, DEFAULT_RECENT_FOODS_LIMIT } from "@shared/recent-foods";
+import {
+  quickLogRequestSchema,
+  buildFoodCandidates,
+  draftMealItems,
+  parseMealDescription,
+  foodNameTerms,
+} from "@shared/quick-log";
+import {
+  cachedFdaFetch,
+  setFdaCacheHeaders,
+  normalizeFdaQuery,
+  fdaSearchCacheKey,
+  fdaFoodCacheKey,
+  findCachedFdaFoods,
+  checkFdaConnection,
+  FDA_SEARCH_TTL_MS,
+  FDA_FOOD_TTL_MS,
+} from "./fda-cache";
+import { fdcSearchParams, fdcBaseUrl, DEFAULT_FDC_BASE_URL } from "./fdc";
+import { fdcGet, FdcError } from "./fdc-client";
+import { parseGtin, gtinForms, sameGtin } from "@shared/gtin";
+import { useLocalFdaSource, searchLocalFoods, findLocalFoodsByUpc, getLocalFood } from "./nutrient-foods";
+import {
+  normalizeFdcFood,
+  normalizeBarcodeProduct,
+  type NormalizedFood,
+  type FdcFood,
+  type FdcSearchResponse,
+} from "@shared/normalized-food";
+import { fdaSearchQuerySchema, rankFdaFoods } from "@shared/fda-search";
+import type { FdaStatusResponse } from "@shared/fdc-errors";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
+  
+  // Sessions, passport and the /api/register, /api/login, /api/logout, /api/user routes
+  setupAuth(app);
 
   // Helper to handle errors
   const handleError = (res: Response, error: unknown) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ message: fromZodError(error).message });
     }
+    if (error instanceof FdcError) {
+      return res.status(error.httpStatus).json({ message: error.message, code: error.code });
+    }
     if (error instanceof Error) {
       return res.status(500).json({ message: error.message });
     }
     return res.status(500).json({ message: "An unknown error occurred" });
   };
 
+  // Days are the user's calendar days, not UTC ones
+  const todayFor = (req: Request) => toDateKey(new Date(), req.user!.timezone);
+
+  // Resolve a date sent in a request body to a calendar date. Values that
+  // aren't dates are left alone so schema validation reports them.
+  const withDateKey = (req: Request, body: Record<string, unknown> | undefined, defaultToToday: boolean) => {
+    if (body?.date === undefined) {
+      return defaultToToday ? { ...body, date: todayFor(req) } : body;
+    }
+    return { ...body, date: parseDateKey(body.date, req.user!.timezone) ?? body.date };
+  };
+
+  // An FDA food's nutrients per 100 g, from the imported foods or through the
+  // FDA cache. Undefined when FDA has no such food.
+  const fdaFoodNutrients = async (fdcId: number): Promise<NutrientValues | undefined> => {
+    let food: NormalizedFood | undefined;
+    if (useLocalFdaSource()) {
+      food = await getLocalFood(storage, fdcId);
+    } else {
+      try {
+        const result = await cachedFdaFetch(fdaFoodCacheKey(fdcId), `/food/${fdcId}`, {}, FDA_FOOD_TTL_MS);
+        food = normalizeFdcFood(result.data as FdcFood);
+      } catch (error) {
+        if (error instanceof FdcError && error.code === "not_found") return undefined;
+        throw error;
+      }
+    }
+    if (!food) return undefined;
+    
+    const { saturatedFat: _saturatedFat, ...nutrients } = food.per100g;
+    return nutrients;
+  };
+
+  // Fill in per-100 g nutrients for every ingredient line from its food, so
+  // whatever nutrients the client sent are never trusted. Custom foods are per
+  // serving, so they need a serving weight to be weighed.
+  const resolveRecipeIngredients = async (req: Request, ingredients: RecipeIngredient[]): Promise<RecipeIngredient[]> => {
+    return Promise.all(ingredients.map(async (line, index) => {
+      const issue = (message: string) => new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ["ingredients", index, line.foodItemId === undefined ? "fdcId" : "foodItemId"],
+        message,
+      }]);
+      
+      if (line.foodItemId === undefined) {
+        const nutrients = line.fdcId === undefined ? undefined : await fdaFoodNutrients(line.fdcId);
+        if (!nutrients) {
+          throw issue(`${line.name} was not found in the FDA database`);
+        }
+        return { ...line, nutrients };
+      }
+      
+      const food = await storage.getFoodItem(line.foodItemId);
+      if (!food || (food.userId !== null && food.userId !== req.user!.id)) {
+        throw issue("Custom food not found");
+      }
+      if (!food.servingGrams) {
+        throw issue(`${food.name} needs a serving weight to be used in a recipe`);
+      }
+      
+      return { ...line, nutrients: scaleNutrients(foodItemPortion(food), 100, "g") };
+    }));
+  };
+
   // User routes
-  app.post("/api/users", async (req, res) => {
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
-      const existingUser = await storage.getUserByUsername(userData.username);
+      const userId = parseInt(req.params.id);
       
-      if (existingUser) {
-        return res.status(409).json({ message: "Username already exists" });
+      // Users can only read their own profile
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
       }
       
-      const user = await storage.createUser(userData);
-      // Don't return the password in the response
-      const { password, ...userWithoutPassword } = user;
+      const user = await storage.getUser(userId);
       
-      res.status(201).json(userWithoutPassword);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(toPublicUser(user));
     } catch (error) {
       handleError(res, error);
     }
   });
 
-  app.get("/api/users/:id", async (req, res) => {
+  app.patch("/api/users/:id", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
-      const user = await storage.getUser(userId);
+      
+      // Users can only update their own profile
+      if (userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
+      const updates = updateUserSchema.parse(req.body);
+      const user = await storage.updateUser(userId, updates);
       
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Don't return the password in the response
-      const { password, ...userWithoutPassword } = user;
-      
-      res.json(userWithoutPassword);
+      res.json(toPublicUser(user));
     } catch (error) {
       handleError(res, error);
     }
   });
 
   // Meal routes
-  app.get("/api/meals", async (req, res) => {
+  app.get("/api/meals", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
+      const userId = req.user!.id;
       const dateStr = req.query.date as string | undefined;
       
-      if (!userId) {
-        return res.status(400).json({ message: "userId is required" });
-      }
-      
       if (dateStr) {
-        // Parse date in YYYY-MM-DD format
-        let date;
-        if (dateStr.includes('T')) {
-          // If it's an ISO string, extract just the date part
-          date = new Date(dateStr.split('T')[0]);
-        } else {
-          // Otherwise assume it's already in YYYY-MM-DD format
-          date = new Date(dateStr);
+        const date = parseDateKey(dateStr, req.user!.timezone);
+        if (!date) {
+          return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
         }
         const meals = await storage.getMealsByDate(userId, date);
         return res.json(meals);
@@ -96,12 +211,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/meals/:id", async (req, res) => {
+  app.get("/api/meals/:id", requireAuth, async (req, res) => {
     try {
       const mealId = parseInt(req.params.id);
       const meal = await storage.getMeal(mealId);
       
-      if (!meal) {
+      // Meals belonging to other users are reported as missing
+      if (!meal || meal.userId !== req.user!.id) {
         return res.status(404).json({ message: "Meal not found" });
       }
       
@@ -111,9 +227,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/meals", async (req, res) => {
+  app.post("/api/meals", requireAuth, async (req, res) => {
     try {
-      const mealData = insertMealSchema.parse(req.body);
+      const mealData = insertMealSchema.parse({ ...withDateKey(req, req.body, true), userId: req.user!.id });
       const meal = await storage.createMeal(mealData);
       res.status(201).json(meal);
     } catch (error) {
@@ -121,40 +237,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/meals/:id", async (req, res) => {
+  app.patch("/api/meals/:id", requireAuth, async (req, res) => {
     try {
       const mealId = parseInt(req.params.id);
-      const success = await storage.deleteMeal(mealId);
+      const meal = await storage.getMeal(mealId);
       
-      if (!success) {
+      if (!meal || meal.userId !== req.user!.id) {
         return res.status(404).json({ message: "Meal not found" });
       }
       
+      const updates = updateMealSchema.parse(withDateKey(req, req.body, false));
+      const updatedMeal = await storage.updateMeal(mealId, updates);
+      
+      res.json(updatedMeal);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.delete("/api/meals/:id", requireAuth, async (req, res) => {
+    try {
+      const mealId = parseInt(req.params.id);
+      const meal = await storage.getMeal(mealId);
+      
+      if (!meal || meal.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Meal not found" });
+      }
+      
+      await storage.deleteMeal(mealId);
+      
       res.status(204).send();
     } catch (error) {
       handleError(res, error);
     }
   });
 
-  // Workout routes
-  app.get("/api/workouts", async (req, res) => {
+  // Meal template routes
+  app.get("/api/meal-templates", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      const dateStr = req.query.date as string | undefined;
+      const templates = await storage.getMealTemplates(req.user!.id);
+      res.json(templates);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.post("/api/meal-templates", requireAuth, async (req, res) => {
+    try {
+      const templateData = insertMealTemplateSchema.parse({ ...req.body, userId: req.user!.id });
+      const template = await storage.createMealTemplate(templateData);
+      res.status(201).json(template);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.patch("/api/meal-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const template = await storage.getMealTemplate(templateId);
+      
+      if (!template || template.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Meal template not found" });
+      }
+      
+      const updates = updateMealTemplateSchema.parse(req.body);
+      const updatedTemplate = await storage.updateMealTemplate(templateId, updates);
       
-      if (!userId) {
-        return res.status(400).json({ message: "userId is required" });
+      res.json(updatedTemplate);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.delete("/api/meal-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const template = await storage.getMealTemplate(templateId);
+      
+      if (!template || template.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Meal template not found" });
       }
       
+      await storage.deleteMealTemplate(templateId);
+      
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  // Log a template as a new meal, by default today at the current time
+  app.post("/api/meal-templates/:id/log", requireAuth, async (req, res) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const template = await storage.getMealTemplate(templateId);
+      
+      if (!template || template.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Meal template not found" });
+      }
+      
+      const { date, time } = logMealTemplateSchema.parse(withDateKey(req, req.body, true));
+      const { id, name, userId, ...mealFields } = template;
+      
+      const mealData = insertMealSchema.parse({
+        ...mealFields,
+        userId,
+        date,
+        time: time ?? toTimeLabel(new Date(), req.user!.timezone),
+      });
+      const meal = await storage.createMeal(mealData);
+      res.status(201).json(meal);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  // Workout routes
+  app.get("/api/workouts", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const dateStr = req.query.date as string | undefined;
+      
       if (dateStr) {
-        // Parse date in YYYY-MM-DD format
-        let date;
-        if (dateStr.includes('T')) {
-          // If it's an ISO string, extract just the date part
-          date = new Date(dateStr.split('T')[0]);
-        } else {
-          // Otherwise assume it's already in YYYY-MM-DD format
-          date = new Date(dateStr);
+        const date = parseDateKey(dateStr, req.user!.timezone);
+        if (!date) {
+          return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
         }
         const workouts = await storage.getWorkoutsByDate(userId, date);
         return res.json(workouts);
@@ -167,12 +375,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/workouts/:id", async (req, res) => {
+  app.get("/api/workouts/:id", requireAuth, async (req, res) => {
     try {
       const workoutId = parseInt(req.params.id);
       const workout = await storage.getWorkout(workoutId);
       
-      if (!workout) {
+      // Workouts belonging to other users are reported as missing
+      if (!workout || workout.userId !== req.user!.id) {
         return res.status(404).json({ message: "Workout not found" });
       }
       
@@ -182,9 +391,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/workouts", async (req, res) => {
+  app.post("/api/workouts", requireAuth, async (req, res) => {
     try {
-      const workoutData = insertWorkoutSchema.parse(req.body);
+      const workoutData = insertWorkoutSchema.parse({ ...withDateKey(req, req.body, true), userId: req.user!.id });
       const workout = await storage.createWorkout(workoutData);
       res.status(201).json(workout);
     } catch (error) {
@@ -192,22 +401,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/workouts/:id", async (req, res) => {
+  app.patch("/api/workouts/:id", requireAuth, async (req, res) => {
+    try {
+      const workoutId = parseInt(req.params.id);
+      const workout = await storage.getWorkout(workoutId);
+      
+      if (!workout || workout.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+      
+      const updates = updateWorkoutSchema.parse(withDateKey(req, req.body, false));
+      const updatedWorkout = await storage.updateWorkout(workoutId, updates);
+      
+      res.json(updatedWorkout);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.delete("/api/workouts/:id", requireAuth, async (req, res) => {
     try {
       const workoutId = parseInt(req.params.id);
-      const success = await storage.deleteWorkout(workoutId);
+      const workout = await storage.getWorkout(workoutId);
       
-      if (!success) {
+      if (!workout || workout.userId !== req.user!.id) {
         return res.status(404).json({ message: "Workout not found" });
       }
       
+      await storage.deleteWorkout(workoutId);
+      
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  // Custom food routes. The shared sample foods (no owner) can be read but not changed.
+  app.get("/api/food-items", requireAuth, async (req, res) => {
+    try {
+      const foodItems = await storage.getFoodItems(req.user!.id);
+      res.json(foodItems);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.post("/api/food-items", requireAuth, async (req, res) => {
+    try {
+      const foodItemData = insertFoodItemSchema.parse({ ...req.body, userId: req.user!.id });
+      const foodItem = await storage.createFoodItem(foodItemData);
+      res.status(201).json(foodItem);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.patch("/api/food-items/:id", requireAuth, async (req, res) => {
+    try {
+      const foodItemId = parseInt(req.params.id);
+      const foodItem = await storage.getFoodItem(foodItemId);
+      
+      if (!foodItem || foodItem.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      const updates = updateFoodItemSchema.parse(req.body);
+      const updatedFoodItem = await storage.updateFoodItem(foodItemId, updates);
+      
+      res.json(updatedFoodItem);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.delete("/api/food-items/:id", requireAuth, async (req, res) => {
+    try {
+      const foodItemId = parseInt(req.params.id);
+      const foodItem = await storage.getFoodItem(foodItemId);
+      
+      if (!foodItem || foodItem.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Food item not found" });
+      }
+      
+      await storage.deleteFoodItem(foodItemId);
+      
       res.status(204).send();
     } catch (error) {
       handleError(res, error);
     }
   });
 
-  // Food items routes removed - using FDA API only
+  // Foods the user logged most recently and most often, for quick adding
+  app.get("/api/foods/recent", requireAuth, async (req, res) => {
+    try {
+      const limit = req.query.limit === undefined ? DEFAULT_RECENT_FOODS_LIMIT : parseInt(req.query.limit as string);
+      if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+        return res.status(400).json({ message: "Limit must be between 1 and 50" });
+      }
+      
+      const meals = await storage.getMeals(req.user!.id);
+      res.json(summarizeRecentFoods(meals, limit));
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  // FDA foods the server already holds for a food name: cached API responses
+  // and foods imported into nutrient_foods
+  const findKnownFdaFoods = async (foodName: string): Promise<NormalizedFood[]> => {
+    const terms = foodNameTerms(foodName);
+    if (terms.length === 0) return [];
+
+    const [cached, local] = await Promise.all([
+      findCachedFdaFoods(terms),
+      searchLocalFoods(storage, fdaSearchQuerySchema.parse({ q: terms.join(" "), pageSize: 5 })),
+    ]);
+    return [...cached, ...local.foods];
+  };
+
+  // Turn a free-text description into draft meal items for the user to confirm.
+  // Parsing is local; foods resolve against custom foods, recipes, the FDA
+  // foods the user has logged before and FDA foods already cached or imported
+  // on the server, so this needs no network.
+  app.post("/api/quick-log/parse", requireAuth, async (req, res) => {
+    try {
+      const { text } = quickLogRequestSchema.parse(req.body);
+      const userId = req.user!.id;
+
+      const [foodItems, recipes, meals] = await Promise.all([
+        storage.getFoodItems(userId),
+        storage.getRecipes(userId),
+        storage.getMeals(userId),
+      ]);
+
+      // FDA foods are looked up for the phrases the user's own foods leave,
+      // so "mac and cheese" is searched whole when a recipe is called that
+      const phrases = parseMealDescription(text, buildFoodCandidates(foodItems, recipes, meals));
+      const fdaFoods = await Promise.all(phrases.map((phrase) => findKnownFdaFoods(phrase.foodName)));
+
+      res.json(draftMealItems(text, buildFoodCandidates(foodItems, recipes, meals, fdaFoods.flat())));
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
 
   // Exercises routes
   app.get("/api/exercises", async (req, res) => {
@@ -220,23 +556,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Daily Progress routes
-  app.get("/api/daily-progress", async (req, res) => {
+  app.get("/api/daily-progress", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.query.userId as string);
-      const dateStr = req.query.date as string || new Date().toISOString().split('T')[0];
-      
-      if (!userId) {
-        return res.status(400).json({ message: "userId is required" });
-      }
+      const userId = req.user!.id;
+      const dateStr = req.query.date as string | undefined;
+      const date = dateStr ? parseDateKey(dateStr, req.user!.timezone) : todayFor(req);
       
-      // Parse date in YYYY-MM-DD format
-      let date;
-      if (dateStr.includes('T')) {
-        // If it's an ISO string, extract just the date part
-        date = new Date(dateStr.split('T')[0]);
-      } else {
-        // Otherwise assume it's already in YYYY-MM-DD format
-        date = new Date(dateStr);
+      if (!date) {
+        return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
       }
       
       const progress = await storage.getDailyProgress(userId, date);
@@ -251,8 +578,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           carbsConsumed: 0,
           fatConsumed: 0,
           sugarConsumed: 0,
+          fiberConsumed: 0,
+          sodiumConsumed: 0,
           workoutMinutes: 0,
-          caloriesBurned: 0
+          caloriesBurned: 0,
+          rowingMeters: 0
         });
       }
       
@@ -262,9 +592,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/daily-progress", async (req, res) => {
+  app.get("/api/daily-progress/range", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const fromStr = req.query.from as string | undefined;
+      const toStr = req.query.to as string | undefined;
+      
+      if (!fromStr || !toStr) {
+        return res.status(400).json({ message: "Both from and to dates are required" });
+      }
+      
+      // Accept YYYY-MM-DD or full ISO strings, read in the user's time zone
+      const from = parseDateKey(fromStr, req.user!.timezone);
+      const to = parseDateKey(toStr, req.user!.timezone);
+      
+      if (!from || !to) {
+        return res.status(400).json({ message: "Dates must be in YYYY-MM-DD format" });
+      }
+      
+      if (from > to) {
+        return res.status(400).json({ message: "The from date must not be after the to date" });
+      }
+      
+      const progress = await storage.getDailyProgressRange(userId, from, to);
+      res.json(progress);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.post("/api/daily-progress", requireAuth, async (req, res) => {
     try {
-      const progressData = insertDailyProgressSchema.parse(req.body);
+      const progressData = insertDailyProgressSchema.parse({ ...withDateKey(req, req.body, true), userId: req.user!.id });
       const progress = await storage.createOrUpdateDailyProgress(progressData);
       res.status(201).json(progress);
     } catch (error) {
@@ -272,27 +631,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // FDA API routes
-  app.get("/api/fda/search", async (req, res) => {
+  // Recipe routes
+  app.get("/api/recipes", requireAuth, async (req, res) => {
     try {
-      const query = req.query.q as string;
-      const pageSize = parseInt(req.query.pageSize as string) || 10;
-      const apiKey = process.env.FDA_API_KEY;
+      const recipes = await storage.getRecipes(req.user!.id);
+      res.json(recipes);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.get("/api/recipes/:id", requireAuth, async (req, res) => {
+    try {
+      const recipe = await storage.getRecipe(parseInt(req.params.id));
+      
+      if (!recipe || recipe.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      
+      res.json(recipe);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.post("/api/recipes", requireAuth, async (req, res) => {
+    try {
+      const recipeData = insertRecipeSchema.parse({ ...req.body, userId: req.user!.id });
+      const ingredients = await resolveRecipeIngredients(req, recipeData.ingredients);
+      
+      const recipe = await storage.createRecipe({
+        ...recipeData,
+        ingredients,
+        ...computeRecipeNutrition(ingredients, recipeData.servings),
+      });
+      res.status(201).json(recipe);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.patch("/api/recipes/:id", requireAuth, async (req, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const recipe = await storage.getRecipe(recipeId);
       
-      if (!query) {
-        return res.status(400).json({ message: "Search query is required" });
+      if (!recipe || recipe.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Recipe not found" });
       }
       
-      if (!apiKey) {
-        return res.status(500).json({ message: "FDA API key is not configured" });
+      const updates = updateRecipeSchema.parse(req.body);
+      
+      // Recompute nutrition whenever the ingredients or the yield change
+      if (updates.ingredients !== undefined || updates.servings !== undefined) {
+        const ingredients = updates.ingredients
+          ? await resolveRecipeIngredients(req, updates.ingredients)
+          : (recipe.ingredients as RecipeIngredient[]);
+        const servings = updates.servings ?? recipe.servings;
+        
+        const updatedRecipe = await storage.updateRecipe(recipeId, {
+          ...updates,
+          ingredients,
+          ...computeRecipeNutrition(ingredients, servings),
+        });
+        return res.json(updatedRecipe);
       }
       
-      const url = `https://api.nal.usda.gov/fdc/v1/foods/search?api_key=${apiKey}&query=${encodeURIComponent(query)}&pageSize=${pageSize}`;
+      const updatedRecipe = await storage.updateRecipe(recipeId, updates);
+      res.json(updatedRecipe);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.delete("/api/recipes/:id", requireAuth, async (req, res) => {
+    try {
+      const recipeId = parseInt(req.params.id);
+      const recipe = await storage.getRecipe(recipeId);
+      
+      if (!recipe || recipe.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
       
-      const response = await fetch(url);
-      const data = await response.json();
+      await storage.deleteRecipe(recipeId);
       
-      res.json(data);
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  // Repeat a day: clone its meals and/or workouts onto another date
+  app.post("/api/days/copy", requireAuth, async (req, res) => {
+    try {
+      const tz = req.user!.timezone;
+      const { from, to, include } = copyDaySchema.parse({
+        ...req.body,
+        from: parseDateKey(req.body?.from, tz) ?? req.body?.from,
+        to: parseDateKey(req.body?.to, tz) ?? req.body?.to,
+      });
+      
+      const copied = await storage.copyDay(req.user!.id, from, to, include);
+      res.status(201).json(copied);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  // FDA API routes
+  // Whether food search works right now, checked against FDA at most once a minute.
+  // Failures answer with { message, code } like the other FDA routes.
+  app.get("/api/fda/status", requireAuth, async (req, res) => {
+    try {
+      let status: FdaStatusResponse = { source: "local" };
+      if (!useLocalFdaSource()) {
+        await checkFdaConnection();
+        status = { source: fdcBaseUrl() === DEFAULT_FDC_BASE_URL ? "usda" : "custom" };
+      }
+      res.json(status);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+  
+  // ?q=&pageSize=&pageNumber=&dataType=Branded,Foundation&brandOwner=&sort=relevance|name|newest
+  app.get("/api/fda/search", async (req, res) => {
+    try {
+      const search = fdaSearchQuerySchema.parse(req.query);
+      
+      if (useLocalFdaSource()) {
+        return res.json(await searchLocalFoods(storage, search));
+      }
+      
+      const result = await cachedFdaFetch(
+        fdaSearchCacheKey(search),
+        "/foods/search",
+        fdcSearchParams(search, normalizeFdaQuery(search.q)),
+        FDA_SEARCH_TTL_MS
+      );
+      setFdaCacheHeaders(res, result);
+      
+      const data = result.data as FdcSearchResponse;
+      const foods: NormalizedFood[] = (data.foods ?? []).map(normalizeFdcFood);
+      const totalHits = data.totalHits ?? 0;
+      res.json({
+        totalHits,
+        currentPage: search.pageNumber,
+        totalPages: data.totalPages ?? Math.ceil(totalHits / search.pageSize),
+        foods: search.sort === "relevance" ? rankFdaFoods(foods, search.q, search.brandOwner) : foods,
+      });
     } catch (error) {
       handleError(res, error);
     }
@@ -301,7 +788,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/fda/barcode/:upc", async (req, res) => {
     try {
       let upc = req.params.upc;
-      const apiKey = process.env.FDA_API_KEY;
       
       // Handle case when an object is sent (malformed request)
       if (upc && upc.startsWith("[object")) {
@@ -314,31 +800,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "UPC barcode is required" });
       }
       
-      if (!apiKey) {
-        return res.status(500).json({ message: "FDA API key is not configured" });
+      // A wrong length or check digit means the barcode was misread
+      const gtin = parseGtin(upc);
+      if (!gtin) {
+        return res.status(400).json({ message: "Invalid barcode. Check the digits and scan again." });
       }
       
-      // First try searching with gtinUpc parameter which is more accurate for barcodes
-      let url = `https://api.nal.usda.gov/fdc/v1/foods/search?api_key=${apiKey}&query=&pageSize=25&gtinUpc=${upc}&dataType=Branded`;
+      // Products users registered answer before FDA does
+      const product = await storage.getBarcodeProductByGtin(gtin.gtin14);
+      if (product) {
+        return res.json({ foods: [normalizeBarcodeProduct(product)] });
+      }
       
-      let response = await fetch(url);
-      let data = await response.json();
+      if (useLocalFdaSource()) {
+        return res.json(await findLocalFoodsByUpc(storage, gtin));
+      }
       
-      console.log(`Barcode search results for ${upc} with gtinUpc parameter:`, 
-                 data.foods ? `Found ${data.foods.length} results` : "No results");
+      // FDC stores each barcode as the UPC-A, EAN-13 or GTIN-14 the brand owner
+      // submitted, and gtinUpc only matches it exactly, so try each form in turn
+      const forms = gtinForms(gtin).filter((form) => form.length >= 12);
+      let data: FdcSearchResponse = { foods: [] };
+      for (const form of forms) {
+        data = (await fdcGet("/foods/search", { query: "", pageSize: 25, gtinUpc: form, dataType: "Branded" })) as FdcSearchResponse;
+        if (data.foods?.some((food) => sameGtin(food.gtinUpc, gtin))) break;
+      }
       
       // If no results using gtinUpc, try with different data types
       if (!data.foods || data.foods.length === 0) {
-        url = `https://api.nal.usda.gov/fdc/v1/foods/search?api_key=${apiKey}&query=${upc}&pageSize=25`;
-        response = await fetch(url);
-        data = await response.json();
-        
-        console.log(`Barcode search results for ${upc} with general query:`, 
-                   data.foods ? `Found ${data.foods.length} results` : "No results");
+        data = (await fdcGet("/foods/search", { query: forms[0], pageSize: 25 })) as FdcSearchResponse;
       }
       
       // Filter out non-food or research results and prioritize branded food products
-      let filteredFoods = data.foods?.filter((food: any) => {
+      let filteredFoods = data.foods?.filter((food) => {
         // Skip scientific papers and research-only entries
         if (food.dataType === "Experimental" && !food.brandName) return false;
         
@@ -352,70 +845,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Additionally, prioritize results with specific criteria
       if (filteredFoods && filteredFoods.length > 0) {
         // First try exact UPC matches
-        const exactUpcMatches = filteredFoods.filter((food: any) => 
-          food.gtinUpc === upc || food.fdcId === upc || (food.foodCode && food.foodCode === upc)
+        const exactUpcMatches = filteredFoods.filter((food) => 
+          sameGtin(food.gtinUpc, gtin) || (food.foodCode && food.foodCode === upc)
         );
         
         if (exactUpcMatches && exactUpcMatches.length > 0) {
           // Return only exact UPC matches
-          console.log(`Found ${exactUpcMatches.length} exact UPC matches for ${upc}`);
-          return res.json({ foods: exactUpcMatches });
+          return res.json({ foods: exactUpcMatches.map(normalizeFdcFood) });
         }
         
         // Next, prioritize branded foods
-        const brandedFoods = filteredFoods.filter((food: any) => 
+        const brandedFoods = filteredFoods.filter((food) => 
           food.dataType === "Branded" || food.brandName
         );
         
         if (brandedFoods && brandedFoods.length > 0) {
           // Return branded foods first
-          console.log(`Found ${brandedFoods.length} branded foods for ${upc}`);
-          return res.json({ foods: brandedFoods });
+          return res.json({ foods: brandedFoods.map(normalizeFdcFood) });
         }
       }
       
       // If we still have results after filtering, return them
       if (filteredFoods && filteredFoods.length > 0) {
-        console.log(`Returning ${filteredFoods.length} filtered results for ${upc}`);
-        return res.json({ foods: filteredFoods });
+        return res.json({ foods: filteredFoods.map(normalizeFdcFood) });
       }
       
       // If we have no filtered results but have original results, return those
       if (data.foods && data.foods.length > 0) {
-        console.log(`Returning ${data.foods.length} original results for ${upc}`);
-        return res.json(data);
+        return res.json({ foods: data.foods.map(normalizeFdcFood) });
       }
       
-      // If no results at all, check if there's product info in the USDA database
-      console.log(`No results found for ${upc}, trying product lookup...`);
-      try {
-        // For common candy products, provide fallback data
-        if (upc === "040000579816") { // M&M's
-          return res.json({
-            foods: [{
-              fdcId: 1000001,
-              description: "M&M's Milk Chocolate Candy",
-              brandName: "Mars",
-              dataType: "Branded",
-              ingredients: "Milk Chocolate (Sugar, Chocolate, Skim Milk, Cocoa Butter, Lactose, Milkfat, Soy Lecithin, Salt, Artificial Flavors), Sugar, Cornstarch, Less Than 1% - Corn Syrup, Dextrin, Coloring (Includes Blue 1 Lake, Blue 2 Lake, Red 40 Lake, Yellow 6, Yellow 5, Blue 1, Red 40, Yellow 6 Lake, Yellow 5 Lake, Blue 2), Gum Acacia.",
-              foodNutrients: [
-                { nutrientName: "Energy", unitName: "KCAL", value: 140 },
-                { nutrientName: "Protein", unitName: "G", value: 1 },
-                { nutrientName: "Total lipid (fat)", unitName: "G", value: 5 },
-                { nutrientName: "Carbohydrate, by difference", unitName: "G", value: 20 },
-                { nutrientName: "Sugars, total including NLEA", unitName: "G", value: 19 }
-              ]
-            }]
-          });
-        }
-        
-        // If no specific fallback data, return empty result
-        return res.json({ foods: [] });
-        
-      } catch (fallbackError) {
-        console.error("Error in fallback data:", fallbackError);
-        return res.json({ foods: [] });
-      }
+      // Nothing found; the client offers to register the product
+      return res.json({ foods: [] });
     } catch (error) {
       handleError(res, error);
     }
@@ -424,22 +885,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/fda/food/:fdcId", async (req, res) => {
     try {
       const fdcId = req.params.fdcId;
-      const apiKey = process.env.FDA_API_KEY;
       
       if (!fdcId) {
         return res.status(400).json({ message: "Food ID is required" });
       }
       
-      if (!apiKey) {
-        return res.status(500).json({ message: "FDA API key is not configured" });
+      if (useLocalFdaSource()) {
+        const id = parseInt(fdcId);
+        const food = Number.isInteger(id) ? await getLocalFood(storage, id) : undefined;
+        if (!food) {
+          return res.status(404).json({ message: "Food not found" });
+        }
+        return res.json(food);
+      }
+      
+      const result = await cachedFdaFetch(
+        fdaFoodCacheKey(fdcId),
+        `/food/${encodeURIComponent(fdcId)}`,
+        {},
+        FDA_FOOD_TTL_MS
+      );
+      setFdaCacheHeaders(res, result);
+      
+      res.json(normalizeFdcFood(result.data as FdcFood));
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+  
+  // Barcode product registry. Products are shared by everyone on the server:
+  // any signed-in user can register a barcode FDA doesn't know or correct a
+  // product's label, and every version is kept.
+  app.get("/api/barcode-products/:gtin", async (req, res) => {
+    try {
+      const gtin = parseGtin(req.params.gtin);
+      if (!gtin) {
+        return res.status(400).json({ message: "Invalid barcode" });
+      }
+      
+      const product = await storage.getBarcodeProductByGtin(gtin.gtin14);
+      if (!product) {
+        return res.status(404).json({ message: "Barcode product not found" });
+      }
+      
+      res.json(product);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.post("/api/barcode-products", requireAuth, async (req, res) => {
+    try {
+      const productData = insertBarcodeProductSchema.parse(req.body);
+      
+      if (await storage.getBarcodeProductByGtin(productData.gtin)) {
+        return res.status(409).json({ message: "This barcode is already registered. Edit the existing product instead." });
+      }
+      
+      const product = await storage.createBarcodeProduct(productData, req.user!.id);
+      res.status(201).json(product);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.patch("/api/barcode-products/:id", requireAuth, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const updates = updateBarcodeProductSchema.parse(req.body);
+      
+      const product = await storage.updateBarcodeProduct(productId, updates, req.user!.id);
+      if (!product) {
+        return res.status(404).json({ message: "Barcode product not found" });
       }
       
-      const url = `https://api.nal.usda.gov/fdc/v1/food/${fdcId}?api_key=${apiKey}`;
+      res.json(product);
+    } catch (error) {
+      handleError(res, error);
+    }
+  });
+
+  app.get("/api/barcode-products/:id/revisions", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.id);
+      const product = await storage.getBarcodeProduct(productId);
       
-      const response = await fetch(url);
-      const data = await response.json();
+      if (!product) {
+        return res.status(404).json({ message: "Barcode product not found" });
+      }
       
-      res.json(data);
+      const revisions = await storage.getBarcodeProductRevisions(productId);
+      res.json(revisions);
     } catch (error) {
       handleError(res, error);
     }
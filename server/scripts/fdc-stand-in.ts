@@ -0,0 +1,29 @@
+// Serve FoodData Central fixtures locally, so search and barcode lookups work
+// with no network or API key. Point the app at it with FDC_BASE_URL:
+//
+//   npm run fdc:stand-in -- [--port 5055] [--fixtures server/fixtures/fdc]
+//   FDC_BASE_URL=http://localhost:5055/fdc/v1 npm run dev
+import { parseArgs } from "node:util";
+import path from "path";
+import { createFdcStandIn, loadFdcFixtures, DEFAULT_FDC_FIXTURE_DIR } from "../fdc-stand-in";
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "5055" },
+    fixtures: { type: "string" },
+  },
+});
+
+const port = Number(values.port);
+if (!Number.isInteger(port) || port <= 0) {
+  console.error("--port must be a port number");
+  process.exit(1);
+}
+
+const fixtureDir = values.fixtures ? path.resolve(values.fixtures) : DEFAULT_FDC_FIXTURE_DIR;
+const foods = loadFdcFixtures(fixtureDir);
+
+createFdcStandIn(foods).listen(port, () => {
+  console.log(`FDC stand-in serving ${foods.length} foods from ${fixtureDir}`);
+  console.log(`Set FDC_BASE_URL=http://localhost:${port}/fdc/v1`);
+});
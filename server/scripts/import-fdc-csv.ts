@@ -0,0 +1,50 @@
+// Import a USDA FoodData Central CSV download into nutrient_foods, so food search
+// and barcode lookups can run with FDA_SOURCE=local and no API key.
+//
+//   npm run fdc:import -- --dir <unzipped download> [--types sr_legacy_food,foundation_food] [--batch 1000]
+//
+// Without --types everything but branded_food is imported; a branded import is
+// held in memory while it runs, so give it a host with several GB to spare.
+import { parseArgs } from "node:util";
+import { storage } from "../storage";
+import { pool } from "../db";
+import { importFdcCsv, FDC_CSV_DATA_TYPES } from "../fdc-csv-import";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dir: { type: "string" },
+      types: { type: "string" },
+      batch: { type: "string", default: "1000" },
+    },
+  });
+
+  if (!values.dir) {
+    throw new Error("--dir must point at an unzipped FoodData Central CSV download");
+  }
+
+  const dataTypes = values.types?.split(",").map((type) => type.trim()).filter(Boolean);
+  const unknown = dataTypes?.filter((type) => !(type in FDC_CSV_DATA_TYPES)) ?? [];
+  if (unknown.length > 0) {
+    throw new Error(`Unknown --types ${unknown.join(", ")}; expected ${Object.keys(FDC_CSV_DATA_TYPES).join(", ")}`);
+  }
+
+  const batchSize = Number(values.batch);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error("--batch must be a positive whole number");
+  }
+
+  const result = await importFdcCsv(storage, values.dir, {
+    dataTypes,
+    batchSize,
+    onProgress: (message) => console.log(message),
+  });
+  console.log(`${result.imported} food(s) imported, ${result.skipped} without nutrients skipped`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
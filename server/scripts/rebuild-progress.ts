@@ -0,0 +1,58 @@
+// Recompute daily_progress rows from meals and workouts.
+//
+//   npm run progress:rebuild -- [--user <id>] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--dry-run]
+import { parseArgs } from "node:util";
+import { storage } from "../storage";
+import { pool } from "../db";
+import { rebuildDailyProgress } from "../progress-rebuild";
+import { isValidDateKey } from "@shared/dates";
+
+function parseDate(value: string | undefined, name: string): string | undefined {
+  if (value !== undefined && !isValidDateKey(value)) {
+    throw new Error(`--${name} must be in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      user: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const userId = values.user !== undefined ? Number(values.user) : undefined;
+  if (userId !== undefined && !Number.isInteger(userId)) {
+    throw new Error("--user must be a numeric user id");
+  }
+
+  const from = parseDate(values.from, "from");
+  const to = parseDate(values.to, "to");
+  if (from && to && from > to) {
+    throw new Error("--from must not be after --to");
+  }
+
+  const dryRun = values["dry-run"] ?? false;
+  const corrections = await rebuildDailyProgress(storage, { userId, from, to, dryRun });
+
+  for (const correction of corrections) {
+    const changes = Object.entries(correction.changes)
+      .map(([field, change]) => `${field} ${change.from} -> ${change.to}`)
+      .join(", ");
+    const action = correction.created ? "created" : "corrected";
+    console.log(`user ${correction.userId} ${correction.date}: ${action} (${changes})`);
+  }
+
+  const verb = dryRun ? "would be corrected" : "corrected";
+  console.log(`${corrections.length} daily progress row(s) ${verb}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
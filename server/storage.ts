@@ -1,37 +1,79 @@
 import { 
-  users, type User, type InsertUser,
-  foodItems, type FoodItem, type InsertFoodItem,
-  meals, type Meal, type InsertMeal,
+  users, type User, type InsertUser, type UpdateUser,
+  foodItems, type FoodItem, type InsertFoodItem, type UpdateFoodItem,
+  meals, type Meal, type InsertMeal, type UpdateMeal,
+  mealTemplates, type MealTemplate, type InsertMealTemplate, type UpdateMealTemplate,
+  recipes, type Recipe, type InsertRecipe, type UpdateRecipe,
   exercises, type Exercise, type InsertExercise,
-  workouts, type Workout, type InsertWorkout,
+  workouts, type Workout, type InsertWorkout, type UpdateWorkout,
   dailyProgress, type DailyProgress, type InsertDailyProgress,
+  type DayCopyKind, type CopiedDay,
   foodSuggestions, type FoodSuggestion, type InsertFoodSuggestion,
   workoutSuggestions, type WorkoutSuggestion, type InsertWorkoutSuggestion,
-  type WorkoutDetails
+  fdaCache, type FdaCacheEntry, type InsertFdaCacheEntry,
+  nutrientFoods, type NutrientFood, type InsertNutrientFood, nutrientFoodSearchVector,
+  barcodeProducts, type BarcodeProduct, type InsertBarcodeProduct, type UpdateBarcodeProduct,
+  type BarcodeProductLabel, barcodeProductRevisions, type BarcodeProductRevision
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { db, pool } from "./db";
+import { eq, and, or, gte, lte, lt, asc, desc, isNull, inArray, ilike, count, sql, getTableColumns, type SQL } from "drizzle-orm";
 import * as schema from "@shared/schema";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { hashPassword } from "./credentials";
+import { aggregateDayTotals, type DayTotals } from "@shared/progress";
+import type { RecipeNutrition } from "@shared/recipes";
+import { toDateKey, DEFAULT_TIME_ZONE } from "@shared/dates";
+import type { FdaDataType, FdaSearchSort } from "@shared/fda-search";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
 
 // Define storage interface
 export interface IStorage {
+  // Session store used by express-session
+  sessionStore: session.Store;
+  
   // User methods
+  getUsers(): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: UpdateUser): Promise<User | undefined>;
+  updateUserPassword(id: number, password: string): Promise<User | undefined>;
   
   // Food items methods
-  getFoodItems(): Promise<FoodItem[]>;
+  getFoodItems(userId: number): Promise<FoodItem[]>; // the user's own foods plus the shared samples
   getFoodItem(id: number): Promise<FoodItem | undefined>;
   createFoodItem(foodItem: InsertFoodItem): Promise<FoodItem>;
+  updateFoodItem(id: number, updates: UpdateFoodItem): Promise<FoodItem | undefined>;
+  deleteFoodItem(id: number): Promise<boolean>;
   
   // Meal methods
   getMeals(userId: number): Promise<Meal[]>;
-  getMealsByDate(userId: number, date: Date): Promise<Meal[]>;
+  getMealsByDate(userId: number, date: string): Promise<Meal[]>; // date is YYYY-MM-DD
   getMeal(id: number): Promise<Meal | undefined>;
   createMeal(meal: InsertMeal): Promise<Meal>;
+  updateMeal(id: number, updates: UpdateMeal): Promise<Meal | undefined>;
   deleteMeal(id: number): Promise<boolean>;
   
+  // Meal template methods
+  getMealTemplates(userId: number): Promise<MealTemplate[]>;
+  getMealTemplate(id: number): Promise<MealTemplate | undefined>;
+  createMealTemplate(template: InsertMealTemplate): Promise<MealTemplate>;
+  updateMealTemplate(id: number, updates: UpdateMealTemplate): Promise<MealTemplate | undefined>;
+  deleteMealTemplate(id: number): Promise<boolean>;
+  
+  // Recipe methods. Nutrition is computed by the caller from the ingredients.
+  getRecipes(userId: number): Promise<Recipe[]>;
+  getRecipe(id: number): Promise<Recipe | undefined>;
+  createRecipe(recipe: InsertRecipe & RecipeNutrition): Promise<Recipe>;
+  updateRecipe(id: number, updates: UpdateRecipe & Partial<RecipeNutrition>): Promise<Recipe | undefined>;
+  deleteRecipe(id: number): Promise<boolean>;
+  
   // Exercise methods
   getExercises(): Promise<Exercise[]>;
   getExercise(id: number): Promise<Exercise | undefined>;
@@ -39,65 +81,168 @@ export interface IStorage {
   
   // Workout methods
   getWorkouts(userId: number): Promise<Workout[]>;
-  getWorkoutsByDate(userId: number, date: Date): Promise<Workout[]>;
+  getWorkoutsByDate(userId: number, date: string): Promise<Workout[]>;
   getWorkout(id: number): Promise<Workout | undefined>;
   createWorkout(workout: InsertWorkout): Promise<Workout>;
+  updateWorkout(id: number, updates: UpdateWorkout): Promise<Workout | undefined>;
   deleteWorkout(id: number): Promise<boolean>;
   
   // Progress methods
-  getDailyProgress(userId: number, date: Date): Promise<DailyProgress | undefined>;
+  getDailyProgress(userId: number, date: string): Promise<DailyProgress | undefined>;
+  getDailyProgressRange(userId: number, from: string, to: string): Promise<DailyProgress[]>;
   createOrUpdateDailyProgress(progress: InsertDailyProgress): Promise<DailyProgress>;
+  // Recompute a day's row from its meals and workouts under the same per-user
+  // lock as every other progress write. Undefined when the day has nothing
+  // logged and no row. With dryRun the totals are computed but not written.
+  rebuildDayProgress(userId: number, date: string, dryRun: boolean): Promise<DayProgressRebuild | undefined>;
+  
+  // Copy everything of the given kinds logged on one day onto another
+  copyDay(userId: number, from: string, to: string, include: DayCopyKind[]): Promise<CopiedDay>;
   
   // Suggestions methods
   getFoodSuggestions(): Promise<FoodSuggestion[]>;
   getWorkoutSuggestions(): Promise<WorkoutSuggestion[]>;
   createFoodSuggestion(suggestion: InsertFoodSuggestion): Promise<FoodSuggestion>;
   createWorkoutSuggestion(suggestion: InsertWorkoutSuggestion): Promise<WorkoutSuggestion>;
+  
+  // FDA response cache methods. Entries are returned whether or not they have expired.
+  getFdaCacheEntry(key: string): Promise<FdaCacheEntry | undefined>;
+  putFdaCacheEntry(entry: InsertFdaCacheEntry): Promise<FdaCacheEntry>; // replaces any entry with the same key
+  recordFdaCacheHit(key: string): Promise<void>;
+  deleteExpiredFdaCacheEntries(now: Date): Promise<number>;
+  findFdaCacheEntries(terms: string[], limit: number): Promise<FdaCacheEntry[]>; // responses mentioning every term, newest first
+  
+  // Imported FDC foods, for looking foods up without the API
+  searchNutrientFoods(search: NutrientFoodSearch): Promise<{ foods: NutrientFood[]; totalHits: number }>;
+  getNutrientFood(fdcId: number): Promise<NutrientFood | undefined>;
+  getNutrientFoodsByGtin(gtins: string[]): Promise<NutrientFood[]>;
+  upsertNutrientFoods(foods: InsertNutrientFood[]): Promise<number>; // replaces foods with the same fdcId
+  
+  // Barcode product registry, shared by every user. Each create or update
+  // records a revision; userId is null for built-in products.
+  getBarcodeProduct(id: number): Promise<BarcodeProduct | undefined>;
+  getBarcodeProductByGtin(gtin14: string): Promise<BarcodeProduct | undefined>;
+  createBarcodeProduct(product: InsertBarcodeProduct, userId: number | null): Promise<BarcodeProduct>;
+  updateBarcodeProduct(id: number, updates: UpdateBarcodeProduct, userId: number): Promise<BarcodeProduct | undefined>;
+  getBarcodeProductRevisions(productId: number): Promise<BarcodeProductRevision[]>; // newest first
+}
+
+export interface DayProgressRebuild {
+  previous?: DailyProgress; // the row before the rebuild
+  totals: DayTotals;
+}
+
+export interface NutrientFoodSearch {
+  query: string;
+  limit: number;
+  offset: number;
+  dataTypes: FdaDataType[]; // empty for all
+  brandOwner?: string; // matches part of the brand owner, ignoring case
+  sort: FdaSearchSort; // relevance is best match first
+}
+
+// Lower-case words of a search, without punctuation: "Ben & Jerry's" -> ["ben", "jerry", "s"]
+const searchTerms = (query: string) => query.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+// What a barcode product revision records
+function barcodeProductLabel(product: BarcodeProduct): BarcodeProductLabel {
+  const { id: _id, gtin: _gtin, revision: _revision, createdBy: _createdBy, updatedBy: _updatedBy, updatedAt: _updatedAt, ...label } = product;
+  return { ...label, servingSizeUnit: label.servingSizeUnit as BarcodeProductLabel["servingSizeUnit"] };
 }
 
+// Products the registry starts with. Nutrients are per serving, as on the label.
+const sampleBarcodeProducts: InsertBarcodeProduct[] = [
+  {
+    gtin: "00040000579816",
+    name: "M&M's Milk Chocolate Candy",
+    brand: "Mars",
+    ingredients: "Milk Chocolate (Sugar, Chocolate, Skim Milk, Cocoa Butter, Lactose, Milkfat, Soy Lecithin, Salt, Artificial Flavors), Sugar, Cornstarch, Less Than 1% - Corn Syrup, Dextrin, Coloring (Includes Blue 1 Lake, Blue 2 Lake, Red 40 Lake, Yellow 6, Yellow 5, Blue 1, Red 40, Yellow 6 Lake, Yellow 5 Lake, Blue 2), Gum Acacia.",
+    servingSize: 30,
+    servingSizeUnit: "g",
+    householdServing: "1 pack",
+    calories: 140,
+    protein: 1,
+    carbs: 20,
+    fat: 5,
+    sugar: 19,
+    fiber: 0,
+    sodium: 10,
+  },
+];
+
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  
   private users: Map<number, User>;
   private foodItems: Map<number, FoodItem>;
   private meals: Map<number, Meal>;
+  private mealTemplatesList: Map<number, MealTemplate>;
+  private recipesList: Map<number, Recipe>;
   private exercises: Map<number, Exercise>;
   private workouts: Map<number, Workout>;
   private dailyProgressRecords: Map<string, DailyProgress>; // key is userId-date
   private foodSuggestionsList: Map<number, FoodSuggestion>;
   private workoutSuggestionsList: Map<number, WorkoutSuggestion>;
+  private fdaCacheEntries: Map<string, FdaCacheEntry>;
+  private nutrientFoodsList: Map<number, NutrientFood>;
+  private barcodeProductsList: Map<number, BarcodeProduct>;
+  private barcodeProductRevisionsList: BarcodeProductRevision[];
   
   private userIdCounter: number;
   private foodItemIdCounter: number;
   private mealIdCounter: number;
+  private mealTemplateIdCounter: number;
+  private recipeIdCounter: number;
   private exerciseIdCounter: number;
   private workoutIdCounter: number;
   private dailyProgressIdCounter: number;
   private foodSuggestionIdCounter: number;
   private workoutSuggestionIdCounter: number;
+  private barcodeProductIdCounter: number;
+  private barcodeProductRevisionIdCounter: number;
   
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
+    
     this.users = new Map();
     this.foodItems = new Map();
     this.meals = new Map();
+    this.mealTemplatesList = new Map();
+    this.recipesList = new Map();
     this.exercises = new Map();
     this.workouts = new Map();
     this.dailyProgressRecords = new Map();
     this.foodSuggestionsList = new Map();
     this.workoutSuggestionsList = new Map();
+    this.fdaCacheEntries = new Map();
+    this.nutrientFoodsList = new Map();
+    this.barcodeProductsList = new Map();
+    this.barcodeProductRevisionsList = [];
     
     this.userIdCounter = 1;
     this.foodItemIdCounter = 1;
     this.mealIdCounter = 1;
+    this.mealTemplateIdCounter = 1;
+    this.recipeIdCounter = 1;
     this.exerciseIdCounter = 1;
     this.workoutIdCounter = 1;
     this.dailyProgressIdCounter = 1;
     this.foodSuggestionIdCounter = 1;
     this.workoutSuggestionIdCounter = 1;
+    this.barcodeProductIdCounter = 1;
+    this.barcodeProductRevisionIdCounter = 1;
     
     // Initialize with sample data
     this.initializeSampleData();
   }
   
   // User methods
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+  
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -110,14 +255,34 @@ export class MemStorage implements IStorage {
   
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id };
+    const password = await hashPassword(insertUser.password);
+    const user: User = { ...insertUser, password, timezone: insertUser.timezone ?? DEFAULT_TIME_ZONE, id };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, password: await hashPassword(password) };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
   // Food items methods
-  async getFoodItems(): Promise<FoodItem[]> {
-    return Array.from(this.foodItems.values());
+  async getFoodItems(userId: number): Promise<FoodItem[]> {
+    return Array.from(this.foodItems.values())
+      .filter(item => item.userId === userId || item.userId === null);
   }
   
   async getFoodItem(id: number): Promise<FoodItem | undefined> {
@@ -126,23 +291,40 @@ export class MemStorage implements IStorage {
   
   async createFoodItem(insertFoodItem: InsertFoodItem): Promise<FoodItem> {
     const id = this.foodItemIdCounter++;
-    const foodItem: FoodItem = { ...insertFoodItem, id };
+    const foodItem: FoodItem = {
+      ...insertFoodItem,
+      userId: insertFoodItem.userId ?? null,
+      servingGrams: insertFoodItem.servingGrams ?? null,
+      fiber: insertFoodItem.fiber ?? 0,
+      sodium: insertFoodItem.sodium ?? 0,
+      qualityNotes: insertFoodItem.qualityNotes ?? null,
+      id,
+    };
     this.foodItems.set(id, foodItem);
     return foodItem;
   }
   
+  async updateFoodItem(id: number, updates: UpdateFoodItem): Promise<FoodItem | undefined> {
+    const foodItem = this.foodItems.get(id);
+    if (!foodItem) return undefined;
+    
+    const updatedFoodItem: FoodItem = { ...foodItem, ...updates };
+    this.foodItems.set(id, updatedFoodItem);
+    return updatedFoodItem;
+  }
+  
+  async deleteFoodItem(id: number): Promise<boolean> {
+    return this.foodItems.delete(id);
+  }
+  
   // Meal methods
   async getMeals(userId: number): Promise<Meal[]> {
     return Array.from(this.meals.values()).filter(meal => meal.userId === userId);
   }
   
-  async getMealsByDate(userId: number, date: Date): Promise<Meal[]> {
-    const formattedDate = date.toISOString().split('T')[0];
+  async getMealsByDate(userId: number, date: string): Promise<Meal[]> {
     return Array.from(this.meals.values())
-      .filter(meal => {
-        const mealDate = new Date(meal.date).toISOString().split('T')[0];
-        return meal.userId === userId && mealDate === formattedDate;
-      });
+      .filter(meal => meal.userId === userId && meal.date === date);
   }
   
   async getMeal(id: number): Promise<Meal | undefined> {
@@ -155,30 +337,102 @@ export class MemStorage implements IStorage {
     this.meals.set(id, meal);
     
     // Update daily progress
-    await this.updateDailyProgressAfterMeal(meal);
+    await this.recalculateDailyProgress(meal.userId, meal.date);
     
     return meal;
   }
   
+  async updateMeal(id: number, updates: UpdateMeal): Promise<Meal | undefined> {
+    const meal = this.meals.get(id);
+    if (!meal) return undefined;
+    
+    const updatedMeal: Meal = { ...meal, ...updates };
+    this.meals.set(id, updatedMeal);
+    
+    // Rebuild the day the meal now sits on and, if it moved, the day it left
+    await this.recalculateDailyProgress(meal.userId, meal.date);
+    await this.recalculateDailyProgress(updatedMeal.userId, updatedMeal.date);
+    
+    return updatedMeal;
+  }
+  
   async deleteMeal(id: number): Promise<boolean> {
     const meal = this.meals.get(id);
     if (!meal) return false;
     
-    // Update daily progress (subtract calories and nutrients)
-    const date = new Date(meal.date);
-    const dailyProgress = await this.getDailyProgress(meal.userId, date);
-    if (dailyProgress) {
-      const key = `${meal.userId}-${date.toISOString().split('T')[0]}`;
-      const updatedProgress: DailyProgress = {
-        ...dailyProgress,
-        caloriesConsumed: Math.max(0, dailyProgress.caloriesConsumed - meal.totalCalories),
-        proteinConsumed: Math.max(0, dailyProgress.proteinConsumed - meal.totalProtein),
-        // Update other nutrients as needed
-      };
-      this.dailyProgressRecords.set(key, updatedProgress);
-    }
+    this.meals.delete(id);
+    
+    // Update daily progress
+    await this.recalculateDailyProgress(meal.userId, meal.date);
+    
+    return true;
+  }
+  
+  // Meal template methods
+  async getMealTemplates(userId: number): Promise<MealTemplate[]> {
+    return Array.from(this.mealTemplatesList.values()).filter(template => template.userId === userId);
+  }
+  
+  async getMealTemplate(id: number): Promise<MealTemplate | undefined> {
+    return this.mealTemplatesList.get(id);
+  }
+  
+  async createMealTemplate(insertTemplate: InsertMealTemplate): Promise<MealTemplate> {
+    const id = this.mealTemplateIdCounter++;
+    const template: MealTemplate = {
+      ...insertTemplate,
+      totalCarbs: insertTemplate.totalCarbs ?? 0,
+      totalFat: insertTemplate.totalFat ?? 0,
+      totalSugar: insertTemplate.totalSugar ?? 0,
+      totalFiber: insertTemplate.totalFiber ?? 0,
+      totalSodium: insertTemplate.totalSodium ?? 0,
+      qualityNotes: insertTemplate.qualityNotes ?? null,
+      id,
+    };
+    this.mealTemplatesList.set(id, template);
+    return template;
+  }
+  
+  async updateMealTemplate(id: number, updates: UpdateMealTemplate): Promise<MealTemplate | undefined> {
+    const template = this.mealTemplatesList.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate: MealTemplate = { ...template, ...updates };
+    this.mealTemplatesList.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteMealTemplate(id: number): Promise<boolean> {
+    return this.mealTemplatesList.delete(id);
+  }
+  
+  // Recipe methods
+  async getRecipes(userId: number): Promise<Recipe[]> {
+    return Array.from(this.recipesList.values()).filter(recipe => recipe.userId === userId);
+  }
+  
+  async getRecipe(id: number): Promise<Recipe | undefined> {
+    return this.recipesList.get(id);
+  }
+  
+  async createRecipe(insertRecipe: InsertRecipe & RecipeNutrition): Promise<Recipe> {
+    const id = this.recipeIdCounter++;
+    const recipe: Recipe = { ...insertRecipe, id };
+    this.recipesList.set(id, recipe);
+    return recipe;
+  }
+  
+  async updateRecipe(id: number, updates: UpdateRecipe & Partial<RecipeNutrition>): Promise<Recipe | undefined> {
+    const recipe = this.recipesList.get(id);
+    if (!recipe) return undefined;
     
-    return this.meals.delete(id);
+    const updatedRecipe: Recipe = { ...recipe, ...updates };
+    this.recipesList.set(id, updatedRecipe);
+    return updatedRecipe;
+  }
+  
+  async deleteRecipe(id: number): Promise<boolean> {
+    return this.recipesList.delete(id);
   }
   
   // Exercise methods
@@ -202,13 +456,9 @@ export class MemStorage implements IStorage {
     return Array.from(this.workouts.values()).filter(workout => workout.userId === userId);
   }
   
-  async getWorkoutsByDate(userId: number, date: Date): Promise<Workout[]> {
-    const formattedDate = date.toISOString().split('T')[0];
+  async getWorkoutsByDate(userId: number, date: string): Promise<Workout[]> {
     return Array.from(this.workouts.values())
-      .filter(workout => {
-        const workoutDate = new Date(workout.date).toISOString().split('T')[0];
-        return workout.userId === userId && workoutDate === formattedDate;
-      });
+      .filter(workout => workout.userId === userId && workout.date === date);
   }
   
   async getWorkout(id: number): Promise<Workout | undefined> {
@@ -221,40 +471,52 @@ export class MemStorage implements IStorage {
     this.workouts.set(id, workout);
     
     // Update daily progress
-    await this.updateDailyProgressAfterWorkout(workout);
+    await this.recalculateDailyProgress(workout.userId, workout.date);
     
     return workout;
   }
   
+  async updateWorkout(id: number, updates: UpdateWorkout): Promise<Workout | undefined> {
+    const workout = this.workouts.get(id);
+    if (!workout) return undefined;
+    
+    const updatedWorkout: Workout = { ...workout, ...updates };
+    this.workouts.set(id, updatedWorkout);
+    
+    // Rebuild the day the workout now sits on and, if it moved, the day it left
+    await this.recalculateDailyProgress(workout.userId, workout.date);
+    await this.recalculateDailyProgress(updatedWorkout.userId, updatedWorkout.date);
+    
+    return updatedWorkout;
+  }
+  
   async deleteWorkout(id: number): Promise<boolean> {
     const workout = this.workouts.get(id);
     if (!workout) return false;
     
-    // Update daily progress (subtract workout minutes and calories burned)
-    const date = new Date(workout.date);
-    const dailyProgress = await this.getDailyProgress(workout.userId, date);
-    if (dailyProgress) {
-      const key = `${workout.userId}-${date.toISOString().split('T')[0]}`;
-      const updatedProgress: DailyProgress = {
-        ...dailyProgress,
-        workoutMinutes: Math.max(0, dailyProgress.workoutMinutes - workout.durationMinutes),
-        caloriesBurned: Math.max(0, dailyProgress.caloriesBurned - workout.caloriesBurned),
-      };
-      this.dailyProgressRecords.set(key, updatedProgress);
-    }
+    this.workouts.delete(id);
     
-    return this.workouts.delete(id);
+    // Update daily progress
+    await this.recalculateDailyProgress(workout.userId, workout.date);
+    
+    return true;
   }
   
   // Progress methods
-  async getDailyProgress(userId: number, date: Date): Promise<DailyProgress | undefined> {
-    const key = `${userId}-${date.toISOString().split('T')[0]}`;
-    return this.dailyProgressRecords.get(key);
+  async getDailyProgress(userId: number, date: string): Promise<DailyProgress | undefined> {
+    return this.dailyProgressRecords.get(`${userId}-${date}`);
+  }
+  
+  async getDailyProgressRange(userId: number, from: string, to: string): Promise<DailyProgress[]> {
+    // Date keys sort lexically in calendar order
+    return Array.from(this.dailyProgressRecords.values())
+      .filter(progress => progress.userId === userId && progress.date >= from && progress.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date));
   }
   
   async createOrUpdateDailyProgress(progress: InsertDailyProgress): Promise<DailyProgress> {
-    const date = progress.date || new Date();
-    const key = `${progress.userId}-${date.toISOString().split('T')[0]}`;
+    const date = progress.date;
+    const key = `${progress.userId}-${date}`;
     
     const existingProgress = this.dailyProgressRecords.get(key);
     
@@ -273,6 +535,36 @@ export class MemStorage implements IStorage {
     }
   }
   
+  async copyDay(userId: number, from: string, to: string, include: DayCopyKind[]): Promise<CopiedDay> {
+    const copied: CopiedDay = { meals: [], workouts: [] };
+    
+    if (include.includes("meals")) {
+      for (const { id: _id, ...meal } of await this.getMealsByDate(userId, from)) {
+        const id = this.mealIdCounter++;
+        const newMeal: Meal = { ...meal, date: to, id };
+        this.meals.set(id, newMeal);
+        copied.meals.push(newMeal);
+      }
+    }
+    
+    if (include.includes("workouts")) {
+      for (const { id: _id, ...workout } of await this.getWorkoutsByDate(userId, from)) {
+        const id = this.workoutIdCounter++;
+        const newWorkout: Workout = { ...workout, date: to, id };
+        this.workouts.set(id, newWorkout);
+        copied.workouts.push(newWorkout);
+      }
+    }
+    
+    await this.recalculateDailyProgress(userId, to);
+    
+    return copied;
+  }
+  
+  async rebuildDayProgress(userId: number, date: string, dryRun: boolean): Promise<DayProgressRebuild | undefined> {
+    return this.recalculateDailyProgress(userId, date, !dryRun);
+  }
+  
   // Suggestion methods
   async getFoodSuggestions(): Promise<FoodSuggestion[]> {
     return Array.from(this.foodSuggestionsList.values());
@@ -296,81 +588,206 @@ export class MemStorage implements IStorage {
     return workoutSuggestion;
   }
   
-  // Helper methods
-  private async updateDailyProgressAfterMeal(meal: Meal): Promise<void> {
-    const date = new Date(meal.date);
-    const dailyProgress = await this.getDailyProgress(meal.userId, date);
+  // FDA cache methods
+  async getFdaCacheEntry(key: string): Promise<FdaCacheEntry | undefined> {
+    return this.fdaCacheEntries.get(key);
+  }
+  
+  async putFdaCacheEntry(entry: InsertFdaCacheEntry): Promise<FdaCacheEntry> {
+    const cached: FdaCacheEntry = { ...entry, fetchedAt: new Date(), hits: 0 };
+    this.fdaCacheEntries.set(entry.key, cached);
+    return cached;
+  }
+  
+  async recordFdaCacheHit(key: string): Promise<void> {
+    const cached = this.fdaCacheEntries.get(key);
+    if (cached) {
+      cached.hits++;
+    }
+  }
+  
+  async deleteExpiredFdaCacheEntries(now: Date): Promise<number> {
+    let deleted = 0;
+    this.fdaCacheEntries.forEach((entry, key) => {
+      if (entry.expiresAt < now) {
+        this.fdaCacheEntries.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+  
+  async findFdaCacheEntries(terms: string[], limit: number): Promise<FdaCacheEntry[]> {
+    if (terms.length === 0) return [];
     
-    if (dailyProgress) {
-      const key = `${meal.userId}-${date.toISOString().split('T')[0]}`;
-      const updatedProgress: DailyProgress = {
-        ...dailyProgress,
-        caloriesConsumed: dailyProgress.caloriesConsumed + meal.totalCalories,
-        proteinConsumed: dailyProgress.proteinConsumed + meal.totalProtein,
-        // Update other nutrients as needed
-      };
-      this.dailyProgressRecords.set(key, updatedProgress);
-    } else {
-      const id = this.dailyProgressIdCounter++;
-      const newProgress: DailyProgress = {
-        id,
-        userId: meal.userId,
-        date,
-        caloriesConsumed: meal.totalCalories,
-        proteinConsumed: meal.totalProtein,
-        carbsConsumed: 0, // Would be calculated from meal items
-        fatConsumed: 0, // Would be calculated from meal items
-        sugarConsumed: 0, // Would be calculated from meal items
-        workoutMinutes: 0,
-        caloriesBurned: 0,
-      };
-      const key = `${meal.userId}-${date.toISOString().split('T')[0]}`;
-      this.dailyProgressRecords.set(key, newProgress);
+    const needles = terms.map((term) => term.toLowerCase());
+    return Array.from(this.fdaCacheEntries.values())
+      .filter((entry) => {
+        const text = JSON.stringify(entry.response).toLowerCase();
+        return needles.every((needle) => text.includes(needle));
+      })
+      .sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime())
+      .slice(0, limit);
+  }
+  
+  // Nutrient food methods
+  // Every search word must start a word of the description or brand
+  async searchNutrientFoods(search: NutrientFoodSearch): Promise<{ foods: NutrientFood[]; totalHits: number }> {
+    const terms = searchTerms(search.query);
+    if (terms.length === 0) return { foods: [], totalHits: 0 };
+    
+    const brandOwner = search.brandOwner?.toLowerCase();
+    const matches = Array.from(this.nutrientFoodsList.values())
+      .filter((food) => {
+        if (search.dataTypes.length > 0 && !search.dataTypes.includes(food.dataType as FdaDataType)) return false;
+        if (brandOwner && !food.brandOwner?.toLowerCase().includes(brandOwner)) return false;
+        
+        const words = searchTerms(`${food.description} ${food.brandOwner ?? ""} ${food.brandName ?? ""}`);
+        return terms.every((term) => words.some((word) => word.startsWith(term)));
+      })
+      .sort((a, b) => {
+        if (search.sort === "newest") {
+          return (b.publicationDate ?? "").localeCompare(a.publicationDate ?? "");
+        }
+        if (search.sort === "name") {
+          return a.description.localeCompare(b.description);
+        }
+        return a.description.length - b.description.length || a.description.localeCompare(b.description);
+      });
+    
+    return {
+      foods: matches.slice(search.offset, search.offset + search.limit),
+      totalHits: matches.length,
+    };
+  }
+  
+  async getNutrientFood(fdcId: number): Promise<NutrientFood | undefined> {
+    return this.nutrientFoodsList.get(fdcId);
+  }
+  
+  async getNutrientFoodsByGtin(gtins: string[]): Promise<NutrientFood[]> {
+    return Array.from(this.nutrientFoodsList.values()).filter(
+      (food) => food.gtinUpc !== null && gtins.includes(food.gtinUpc)
+    );
+  }
+  
+  async upsertNutrientFoods(foods: InsertNutrientFood[]): Promise<number> {
+    for (const food of foods) {
+      this.nutrientFoodsList.set(food.fdcId, {
+        ...food,
+        foodCategory: food.foodCategory ?? null,
+        brandOwner: food.brandOwner ?? null,
+        brandName: food.brandName ?? null,
+        gtinUpc: food.gtinUpc ?? null,
+        ingredients: food.ingredients ?? null,
+        servingSize: food.servingSize ?? null,
+        servingSizeUnit: food.servingSizeUnit ?? null,
+        householdServingFullText: food.householdServingFullText ?? null,
+        calories: food.calories ?? null,
+        protein: food.protein ?? null,
+        carbs: food.carbs ?? null,
+        fat: food.fat ?? null,
+        sugar: food.sugar ?? null,
+        fiber: food.fiber ?? null,
+        sodium: food.sodium ?? null,
+        publicationDate: food.publicationDate ?? null,
+      });
     }
+    return foods.length;
+  }
+  
+  // Barcode product methods
+  async getBarcodeProduct(id: number): Promise<BarcodeProduct | undefined> {
+    return this.barcodeProductsList.get(id);
+  }
+  
+  async getBarcodeProductByGtin(gtin14: string): Promise<BarcodeProduct | undefined> {
+    return Array.from(this.barcodeProductsList.values()).find((product) => product.gtin === gtin14);
+  }
+  
+  async createBarcodeProduct(product: InsertBarcodeProduct, userId: number | null): Promise<BarcodeProduct> {
+    const id = this.barcodeProductIdCounter++;
+    const newProduct: BarcodeProduct = {
+      ...product,
+      id,
+      brand: product.brand ?? null,
+      ingredients: product.ingredients ?? null,
+      householdServing: product.householdServing ?? null,
+      protein: product.protein ?? 0,
+      carbs: product.carbs ?? 0,
+      fat: product.fat ?? 0,
+      sugar: product.sugar ?? 0,
+      fiber: product.fiber ?? 0,
+      sodium: product.sodium ?? 0,
+      revision: 1,
+      createdBy: userId,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+    this.barcodeProductsList.set(id, newProduct);
+    this.recordBarcodeProductRevision(newProduct);
+    return newProduct;
   }
   
-  private async updateDailyProgressAfterWorkout(workout: Workout): Promise<void> {
-    const date = new Date(workout.date);
-    const dailyProgress = await this.getDailyProgress(workout.userId, date);
+  async updateBarcodeProduct(id: number, updates: UpdateBarcodeProduct, userId: number): Promise<BarcodeProduct | undefined> {
+    const product = this.barcodeProductsList.get(id);
+    if (!product) return undefined;
     
-    // Extract rowing meters if this is a rowing workout
-    let rowingMeters = 0;
-    if (workout.type === 'rowing' && workout.details && typeof workout.details === 'object') {
-      rowingMeters = (workout.details as WorkoutDetails).rowingMeters || 0;
+    const updatedProduct: BarcodeProduct = {
+      ...product,
+      ...updates,
+      revision: product.revision + 1,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+    this.barcodeProductsList.set(id, updatedProduct);
+    this.recordBarcodeProductRevision(updatedProduct);
+    return updatedProduct;
+  }
+  
+  async getBarcodeProductRevisions(productId: number): Promise<BarcodeProductRevision[]> {
+    return this.barcodeProductRevisionsList
+      .filter((revision) => revision.productId === productId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+  
+  // Helper methods
+  private recordBarcodeProductRevision(product: BarcodeProduct): void {
+    this.barcodeProductRevisionsList.push({
+      id: this.barcodeProductRevisionIdCounter++,
+      productId: product.id,
+      revision: product.revision,
+      userId: product.updatedBy,
+      label: barcodeProductLabel(product),
+      createdAt: product.updatedAt,
+    });
+  }
+  
+  // Rebuild a day's progress record from the meals and workouts logged on it
+  private async recalculateDailyProgress(userId: number, date: string, write = true): Promise<DayProgressRebuild | undefined> {
+    const key = `${userId}-${date}`;
+    const dayMeals = await this.getMealsByDate(userId, date);
+    const dayWorkouts = await this.getWorkoutsByDate(userId, date);
+    const existing = this.dailyProgressRecords.get(key);
+    
+    // Nothing logged and nothing to reset
+    if (!existing && dayMeals.length === 0 && dayWorkouts.length === 0) {
+      return undefined;
     }
     
-    if (dailyProgress) {
-      const key = `${workout.userId}-${date.toISOString().split('T')[0]}`;
-      const updatedProgress: DailyProgress = {
-        ...dailyProgress,
-        workoutMinutes: dailyProgress.workoutMinutes + workout.durationMinutes,
-        caloriesBurned: dailyProgress.caloriesBurned + workout.caloriesBurned,
-        rowingMeters: dailyProgress.rowingMeters + rowingMeters
-      };
-      this.dailyProgressRecords.set(key, updatedProgress);
-    } else {
-      const id = this.dailyProgressIdCounter++;
-      const newProgress: DailyProgress = {
-        id,
-        userId: workout.userId,
-        date,
-        caloriesConsumed: 0,
-        proteinConsumed: 0,
-        carbsConsumed: 0,
-        fatConsumed: 0,
-        sugarConsumed: 0,
-        workoutMinutes: workout.durationMinutes,
-        caloriesBurned: workout.caloriesBurned,
-        rowingMeters: rowingMeters
-      };
-      const key = `${workout.userId}-${date.toISOString().split('T')[0]}`;
-      this.dailyProgressRecords.set(key, newProgress);
+    const totals = aggregateDayTotals(dayMeals, dayWorkouts);
+    if (write) {
+      this.dailyProgressRecords.set(key, existing
+        ? { ...existing, ...totals }
+        : { id: this.dailyProgressIdCounter++, userId, date, ...totals });
     }
+    return { previous: existing, totals };
   }
 
   // Initialize sample data
   private initializeSampleData(): void {
-    // Create default user
+    // Create default user. The constructor can't await hashing, so the demo
+    // password starts out as plaintext and is rehashed on first login.
     const user: User = {
       id: this.userIdCounter++,
       username: "demo",
@@ -380,10 +797,13 @@ export class MemStorage implements IStorage {
       carbsGoal: 250,
       fatGoal: 65,
       sugarGoal: 50,
-      workoutGoal: 45
+      workoutGoal: 45,
+      timezone: DEFAULT_TIME_ZONE
     };
     this.users.set(user.id, user);
     
+    const today = toDateKey(new Date(), user.timezone);
+    
     // Create sample food items
     const foodItemsData: InsertFoodItem[] = [
       { name: "Greek Yogurt with Berries", calories: 250, protein: 15, carbs: 30, fat: 8, sugar: 15, ingredientQuality: 4, qualityNotes: "High in protein and probiotics" },
@@ -408,7 +828,7 @@ export class MemStorage implements IStorage {
       { 
         userId: user.id, 
         title: "Breakfast", 
-        date: new Date(), 
+        date: today, 
         time: "8:30 AM", 
         totalCalories: 450, 
         totalProtein: 20, 
@@ -423,7 +843,7 @@ export class MemStorage implements IStorage {
       { 
         userId: user.id, 
         title: "Lunch", 
-        date: new Date(), 
+        date: today, 
         time: "12:45 PM", 
         totalCalories: 570, 
         totalProtein: 35, 
@@ -438,7 +858,7 @@ export class MemStorage implements IStorage {
       { 
         userId: user.id, 
         title: "Dinner", 
-        date: new Date(), 
+        date: today, 
         time: "7:15 PM", 
         totalCalories: 580, 
         totalProtein: 42, 
@@ -477,7 +897,7 @@ export class MemStorage implements IStorage {
       {
         userId: user.id,
         title: "Morning Run",
-        date: new Date(),
+        date: today,
         startTime: "6:30 AM",
         endTime: "6:55 AM",
         caloriesBurned: 180,
@@ -500,7 +920,7 @@ export class MemStorage implements IStorage {
     // Create daily progress for the user
     const dailyProgressData: InsertDailyProgress = {
       userId: user.id,
-      date: new Date(),
+      date: today,
       caloriesConsumed: 1450,
       proteinConsumed: 89,
       carbsConsumed: 185,
@@ -512,7 +932,7 @@ export class MemStorage implements IStorage {
     
     const id = this.dailyProgressIdCounter++;
     const progress: DailyProgress = { ...dailyProgressData, id };
-    const key = `${user.id}-${new Date().toISOString().split('T')[0]}`;
+    const key = `${user.id}-${today}`;
     this.dailyProgressRecords.set(key, progress);
     
     // Create food suggestions
@@ -574,12 +994,30 @@ export class MemStorage implements IStorage {
       const workoutSuggestion: WorkoutSuggestion = { ...suggestion, id };
       this.workoutSuggestionsList.set(id, workoutSuggestion);
     });
+    
+    // Register products for barcodes FDA doesn't know
+    sampleBarcodeProducts.forEach(product => {
+      this.createBarcodeProduct(product, null);
+    });
   }
 }
 
 // Create a DatabaseStorage class that implements IStorage
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      pool,
+      createTableIfMissing: true,
+    });
+  }
+  
   // User methods
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.id));
+  }
+  
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -591,13 +1029,41 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const password = await hashPassword(insertUser.password);
+    const [user] = await db.insert(users).values({ ...insertUser, password }).returning();
     return user;
   }
   
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    // Nothing to change - drizzle rejects an empty SET clause
+    if (Object.keys(updates).length === 0) {
+      return this.getUser(id);
+    }
+    
+    const [user] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+  
+  async updateUserPassword(id: number, password: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ password: await hashPassword(password) })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+  
   // Food items methods
-  async getFoodItems(): Promise<FoodItem[]> {
-    return await db.select().from(foodItems);
+  async getFoodItems(userId: number): Promise<FoodItem[]> {
+    return await db
+      .select()
+      .from(foodItems)
+      .where(or(eq(foodItems.userId, userId), isNull(foodItems.userId)))
+      .orderBy(asc(foodItems.name));
   }
   
   async getFoodItem(id: number): Promise<FoodItem | undefined> {
@@ -610,28 +1076,35 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
   
+  async updateFoodItem(id: number, updates: UpdateFoodItem): Promise<FoodItem | undefined> {
+    // Nothing to change - drizzle rejects an empty SET clause
+    if (Object.keys(updates).length === 0) {
+      return this.getFoodItem(id);
+    }
+    
+    const [item] = await db
+      .update(foodItems)
+      .set(updates)
+      .where(eq(foodItems.id, id))
+      .returning();
+    return item || undefined;
+  }
+  
+  async deleteFoodItem(id: number): Promise<boolean> {
+    const deleted = await db.delete(foodItems).where(eq(foodItems.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
   // Meal methods
   async getMeals(userId: number): Promise<Meal[]> {
     return await db.select().from(meals).where(eq(meals.userId, userId));
   }
   
-  async getMealsByDate(userId: number, date: Date): Promise<Meal[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
+  async getMealsByDate(userId: number, date: string): Promise<Meal[]> {
     return await db
       .select()
       .from(meals)
-      .where(
-        and(
-          eq(meals.userId, userId),
-          gte(meals.date, startOfDay),
-          lte(meals.date, endOfDay)
-        )
-      );
+      .where(and(eq(meals.userId, userId), eq(meals.date, date)));
   }
   
   async getMeal(id: number): Promise<Meal | undefined> {
@@ -640,79 +1113,158 @@ export class DatabaseStorage implements IStorage {
   }
   
   async createMeal(meal: InsertMeal): Promise<Meal> {
-    const [newMeal] = await db.insert(meals).values({
-      ...meal,
-      date: meal.date || new Date(),
-      qualityNotes: meal.qualityNotes ?? null
-    }).returning();
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, meal.userId);
+      
+      const [newMeal] = await tx.insert(meals).values({
+        ...meal,
+        qualityNotes: meal.qualityNotes ?? null
+      }).returning();
+      
+      // Update daily progress
+      await this.recalculateDailyProgress(tx, newMeal.userId, newMeal.date);
+      return newMeal;
+    });
+  }
+  
+  async updateMeal(id: number, updates: UpdateMeal): Promise<Meal | undefined> {
+    // The owner picks the lock; the row is read again once it is held, since
+    // another request may have moved or deleted it in the meantime
+    const owner = await this.getMeal(id);
+    if (!owner) {
+      return undefined;
+    }
     
-    // Update daily progress
-    await this.updateDailyProgressAfterMeal(newMeal);
-    return newMeal;
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, owner.userId);
+      
+      const [meal] = await tx.select().from(meals).where(eq(meals.id, id)).for("update");
+      if (!meal) {
+        return undefined;
+      }
+      
+      // Nothing to change - drizzle rejects an empty SET clause
+      if (Object.keys(updates).length === 0) {
+        return meal;
+      }
+      
+      const [updatedMeal] = await tx
+        .update(meals)
+        .set(updates)
+        .where(eq(meals.id, id))
+        .returning();
+      if (!updatedMeal) {
+        return undefined;
+      }
+      
+      // Recompute the day the meal left (if it moved) and the day it now sits on
+      if (meal.date !== updatedMeal.date) {
+        await this.recalculateDailyProgress(tx, meal.userId, meal.date);
+      }
+      await this.recalculateDailyProgress(tx, updatedMeal.userId, updatedMeal.date);
+      
+      return updatedMeal;
+    });
   }
   
   async deleteMeal(id: number): Promise<boolean> {
-    const meal = await this.getMeal(id);
-    if (!meal) {
+    const owner = await this.getMeal(id);
+    if (!owner) {
       return false;
     }
     
-    await db.delete(meals).where(eq(meals.id, id));
-    
-    // Update daily progress
-    const startOfDay = new Date(meal.date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(meal.date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    // Get all meals for the day
-    const dayMeals = await db
-      .select()
-      .from(meals)
-      .where(
-        and(
-          eq(meals.userId, meal.userId),
-          gte(meals.date, startOfDay),
-          lte(meals.date, endOfDay)
-        )
-      );
-    
-    // Calculate totals
-    let totalCalories = 0;
-    let totalProtein = 0;
-    let totalCarbs = 0;
-    let totalFat = 0;
-    let totalSugar = 0;
-    
-    for (const m of dayMeals) {
-      totalCalories += m.totalCalories;
-      totalProtein += m.totalProtein;
-      // Parse items to get carbs, fat, sugar
-      const items = m.items as any[];
-      for (const item of items) {
-        totalCarbs += item.carbs || 0;
-        totalFat += item.fat || 0;
-        totalSugar += item.sugar || 0;
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, owner.userId);
+      
+      // The day it was on when deleted, not when first read
+      const [deletedMeal] = await tx.delete(meals).where(eq(meals.id, id)).returning();
+      if (!deletedMeal) {
+        return false;
       }
+      
+      // Update daily progress
+      await this.recalculateDailyProgress(tx, deletedMeal.userId, deletedMeal.date);
+      return true;
+    });
+  }
+  
+  // Meal template methods
+  async getMealTemplates(userId: number): Promise<MealTemplate[]> {
+    return await db
+      .select()
+      .from(mealTemplates)
+      .where(eq(mealTemplates.userId, userId))
+      .orderBy(asc(mealTemplates.name));
+  }
+  
+  async getMealTemplate(id: number): Promise<MealTemplate | undefined> {
+    const [template] = await db.select().from(mealTemplates).where(eq(mealTemplates.id, id));
+    return template || undefined;
+  }
+  
+  async createMealTemplate(template: InsertMealTemplate): Promise<MealTemplate> {
+    const [newTemplate] = await db.insert(mealTemplates).values({
+      ...template,
+      qualityNotes: template.qualityNotes ?? null
+    }).returning();
+    return newTemplate;
+  }
+  
+  async updateMealTemplate(id: number, updates: UpdateMealTemplate): Promise<MealTemplate | undefined> {
+    // Nothing to change - drizzle rejects an empty SET clause
+    if (Object.keys(updates).length === 0) {
+      return this.getMealTemplate(id);
     }
     
-    // Update or create progress
-    const progress = await this.getDailyProgress(meal.userId, meal.date);
-    if (progress) {
-      await db
-        .update(dailyProgress)
-        .set({
-          caloriesConsumed: totalCalories,
-          proteinConsumed: totalProtein,
-          carbsConsumed: totalCarbs,
-          fatConsumed: totalFat,
-          sugarConsumed: totalSugar
-        })
-        .where(eq(dailyProgress.id, progress.id));
+    const [template] = await db
+      .update(mealTemplates)
+      .set(updates)
+      .where(eq(mealTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+  
+  async deleteMealTemplate(id: number): Promise<boolean> {
+    const deleted = await db.delete(mealTemplates).where(eq(mealTemplates.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Recipe methods
+  async getRecipes(userId: number): Promise<Recipe[]> {
+    return await db
+      .select()
+      .from(recipes)
+      .where(eq(recipes.userId, userId))
+      .orderBy(asc(recipes.name));
+  }
+  
+  async getRecipe(id: number): Promise<Recipe | undefined> {
+    const [recipe] = await db.select().from(recipes).where(eq(recipes.id, id));
+    return recipe || undefined;
+  }
+  
+  async createRecipe(recipe: InsertRecipe & RecipeNutrition): Promise<Recipe> {
+    const [newRecipe] = await db.insert(recipes).values(recipe).returning();
+    return newRecipe;
+  }
+  
+  async updateRecipe(id: number, updates: UpdateRecipe & Partial<RecipeNutrition>): Promise<Recipe | undefined> {
+    // Nothing to change - drizzle rejects an empty SET clause
+    if (Object.keys(updates).length === 0) {
+      return this.getRecipe(id);
     }
     
-    return true;
+    const [recipe] = await db
+      .update(recipes)
+      .set(updates)
+      .where(eq(recipes.id, id))
+      .returning();
+    return recipe || undefined;
+  }
+  
+  async deleteRecipe(id: number): Promise<boolean> {
+    const deleted = await db.delete(recipes).where(eq(recipes.id, id)).returning();
+    return deleted.length > 0;
   }
   
   // Exercise methods
@@ -738,23 +1290,11 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(workouts).where(eq(workouts.userId, userId));
   }
   
-  async getWorkoutsByDate(userId: number, date: Date): Promise<Workout[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
+  async getWorkoutsByDate(userId: number, date: string): Promise<Workout[]> {
     return await db
       .select()
       .from(workouts)
-      .where(
-        and(
-          eq(workouts.userId, userId),
-          gte(workouts.date, startOfDay),
-          lte(workouts.date, endOfDay)
-        )
-      );
+      .where(and(eq(workouts.userId, userId), eq(workouts.date, date)));
   }
   
   async getWorkout(id: number): Promise<Workout | undefined> {
@@ -763,95 +1303,103 @@ export class DatabaseStorage implements IStorage {
   }
   
   async createWorkout(workout: InsertWorkout): Promise<Workout> {
-    const [newWorkout] = await db.insert(workouts).values({
-      ...workout,
-      date: workout.date || new Date()
-    }).returning();
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, workout.userId);
+      
+      const [newWorkout] = await tx.insert(workouts).values(workout).returning();
+      
+      // Update daily progress
+      await this.recalculateDailyProgress(tx, newWorkout.userId, newWorkout.date);
+      return newWorkout;
+    });
+  }
+  
+  async updateWorkout(id: number, updates: UpdateWorkout): Promise<Workout | undefined> {
+    // The owner picks the lock; the row is read again once it is held, since
+    // another request may have moved or deleted it in the meantime
+    const owner = await this.getWorkout(id);
+    if (!owner) {
+      return undefined;
+    }
     
-    // Update daily progress
-    await this.updateDailyProgressAfterWorkout(newWorkout);
-    return newWorkout;
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, owner.userId);
+      
+      const [workout] = await tx.select().from(workouts).where(eq(workouts.id, id)).for("update");
+      if (!workout) {
+        return undefined;
+      }
+      
+      // Nothing to change - drizzle rejects an empty SET clause
+      if (Object.keys(updates).length === 0) {
+        return workout;
+      }
+      
+      const [updatedWorkout] = await tx
+        .update(workouts)
+        .set(updates)
+        .where(eq(workouts.id, id))
+        .returning();
+      if (!updatedWorkout) {
+        return undefined;
+      }
+      
+      // Totals are rebuilt from the day's rows, so the edited workout is only counted once
+      if (workout.date !== updatedWorkout.date) {
+        await this.recalculateDailyProgress(tx, workout.userId, workout.date);
+      }
+      await this.recalculateDailyProgress(tx, updatedWorkout.userId, updatedWorkout.date);
+      
+      return updatedWorkout;
+    });
   }
   
   async deleteWorkout(id: number): Promise<boolean> {
-    const workout = await this.getWorkout(id);
-    if (!workout) {
+    const owner = await this.getWorkout(id);
+    if (!owner) {
       return false;
     }
     
-    await db.delete(workouts).where(eq(workouts.id, id));
-    
-    // Update daily progress
-    const startOfDay = new Date(workout.date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(workout.date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    // Get all workouts for the day
-    const dayWorkouts = await db
-      .select()
-      .from(workouts)
-      .where(
-        and(
-          eq(workouts.userId, workout.userId),
-          gte(workouts.date, startOfDay),
-          lte(workouts.date, endOfDay)
-        )
-      );
-    
-    // Calculate totals
-    let totalMinutes = 0;
-    let totalCaloriesBurned = 0;
-    
-    for (const w of dayWorkouts) {
-      totalMinutes += w.durationMinutes;
-      totalCaloriesBurned += w.caloriesBurned;
-    }
-    
-    // Update or create progress
-    const progress = await this.getDailyProgress(workout.userId, workout.date);
-    if (progress) {
-      await db
-        .update(dailyProgress)
-        .set({
-          workoutMinutes: totalMinutes,
-          caloriesBurned: totalCaloriesBurned
-        })
-        .where(eq(dailyProgress.id, progress.id));
-    }
-    
-    return true;
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, owner.userId);
+      
+      // The day it was on when deleted, not when first read
+      const [deletedWorkout] = await tx.delete(workouts).where(eq(workouts.id, id)).returning();
+      if (!deletedWorkout) {
+        return false;
+      }
+      
+      // Update daily progress
+      await this.recalculateDailyProgress(tx, deletedWorkout.userId, deletedWorkout.date);
+      return true;
+    });
   }
   
   // Progress methods
-  async getDailyProgress(userId: number, date: Date): Promise<DailyProgress | undefined> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
+  async getDailyProgress(userId: number, date: string): Promise<DailyProgress | undefined> {
     const [progress] = await db
+      .select()
+      .from(dailyProgress)
+      .where(and(eq(dailyProgress.userId, userId), eq(dailyProgress.date, date)));
+    
+    return progress || undefined;
+  }
+  
+  async getDailyProgressRange(userId: number, from: string, to: string): Promise<DailyProgress[]> {
+    return await db
       .select()
       .from(dailyProgress)
       .where(
         and(
           eq(dailyProgress.userId, userId),
-          gte(dailyProgress.date, startOfDay),
-          lte(dailyProgress.date, endOfDay)
+          gte(dailyProgress.date, from),
+          lte(dailyProgress.date, to)
         )
-      );
-    
-    return progress || undefined;
+      )
+      .orderBy(asc(dailyProgress.date));
   }
   
   async createOrUpdateDailyProgress(progress: InsertDailyProgress): Promise<DailyProgress> {
-    // Ensure date is not undefined
-    if (!progress.date) {
-      progress.date = new Date();
-    }
-    
     const existing = await this.getDailyProgress(progress.userId, progress.date);
     
     if (existing) {
@@ -874,6 +1422,8 @@ export class DatabaseStorage implements IStorage {
           carbsConsumed: progress.carbsConsumed ?? 0,
           fatConsumed: progress.fatConsumed ?? 0,
           sugarConsumed: progress.sugarConsumed ?? 0,
+          fiberConsumed: progress.fiberConsumed ?? 0,
+          sodiumConsumed: progress.sodiumConsumed ?? 0,
           workoutMinutes: progress.workoutMinutes ?? 0,
           caloriesBurned: progress.caloriesBurned ?? 0
         })
@@ -883,6 +1433,52 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async copyDay(userId: number, from: string, to: string, include: DayCopyKind[]): Promise<CopiedDay> {
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, userId);
+      
+      const copied: CopiedDay = { meals: [], workouts: [] };
+      
+      if (include.includes("meals")) {
+        const dayMeals = await tx
+          .select()
+          .from(meals)
+          .where(and(eq(meals.userId, userId), eq(meals.date, from)));
+        
+        if (dayMeals.length > 0) {
+          copied.meals = await tx
+            .insert(meals)
+            .values(dayMeals.map(({ id: _id, ...meal }) => ({ ...meal, date: to })))
+            .returning();
+        }
+      }
+      
+      if (include.includes("workouts")) {
+        const dayWorkouts = await tx
+          .select()
+          .from(workouts)
+          .where(and(eq(workouts.userId, userId), eq(workouts.date, from)));
+        
+        if (dayWorkouts.length > 0) {
+          copied.workouts = await tx
+            .insert(workouts)
+            .values(dayWorkouts.map(({ id: _id, ...workout }) => ({ ...workout, date: to })))
+            .returning();
+        }
+      }
+      
+      await this.recalculateDailyProgress(tx, userId, to);
+      return copied;
+    });
+  }
+  
+  async rebuildDayProgress(userId: number, date: string, dryRun: boolean): Promise<DayProgressRebuild | undefined> {
+    return await db.transaction(async (tx) => {
+      await this.lockUserProgress(tx, userId);
+      return await this.recalculateDailyProgress(tx, userId, date, !dryRun);
+    });
+  }
+  
   // Suggestions methods
   async getFoodSuggestions(): Promise<FoodSuggestion[]> {
     return await db.select().from(foodSuggestions);
@@ -909,131 +1505,206 @@ export class DatabaseStorage implements IStorage {
     return newSuggestion;
   }
   
-  // Helper methods
-  private async updateDailyProgressAfterMeal(meal: Meal): Promise<void> {
-    const progress = await this.getDailyProgress(meal.userId, meal.date);
+  // FDA cache methods
+  async getFdaCacheEntry(key: string): Promise<FdaCacheEntry | undefined> {
+    const [entry] = await db.select().from(fdaCache).where(eq(fdaCache.key, key));
+    return entry;
+  }
+  
+  async putFdaCacheEntry(entry: InsertFdaCacheEntry): Promise<FdaCacheEntry> {
+    const fetchedAt = new Date();
+    const [cached] = await db.insert(fdaCache)
+      .values({ ...entry, fetchedAt, hits: 0 })
+      .onConflictDoUpdate({
+        target: fdaCache.key,
+        set: { response: entry.response, expiresAt: entry.expiresAt, fetchedAt, hits: 0 },
+      })
+      .returning();
+    return cached;
+  }
+  
+  async recordFdaCacheHit(key: string): Promise<void> {
+    await db.update(fdaCache)
+      .set({ hits: sql`${fdaCache.hits} + 1` })
+      .where(eq(fdaCache.key, key));
+  }
+  
+  async deleteExpiredFdaCacheEntries(now: Date): Promise<number> {
+    const deleted = await db.delete(fdaCache).where(lt(fdaCache.expiresAt, now)).returning({ key: fdaCache.key });
+    return deleted.length;
+  }
+  
+  async findFdaCacheEntries(terms: string[], limit: number): Promise<FdaCacheEntry[]> {
+    if (terms.length === 0) return [];
     
-    if (progress) {
-      // Get all meals for today
-      const meals = await this.getMealsByDate(meal.userId, meal.date);
-      
-      // Calculate total nutrients
-      let totalCalories = 0;
-      let totalProtein = 0;
-      let totalCarbs = 0;
-      let totalFat = 0;
-      let totalSugar = 0;
-      
-      for (const m of meals) {
-        totalCalories += m.totalCalories;
-        totalProtein += m.totalProtein;
-        // Parse items to get carbs, fat, sugar
-        const items = m.items as any[];
-        for (const item of items) {
-          totalCarbs += item.carbs || 0;
-          totalFat += item.fat || 0;
-          totalSugar += item.sugar || 0;
-        }
-      }
-      
-      // Update progress
-      await db
-        .update(dailyProgress)
+    const responseText = sql`${fdaCache.response}::text`;
+    return db.select()
+      .from(fdaCache)
+      .where(and(...terms.map((term) => ilike(responseText, `%${term.replace(/[\\%_]/g, "\\$&")}%`))))
+      .orderBy(desc(fdaCache.fetchedAt))
+      .limit(limit);
+  }
+  
+  // Nutrient food methods
+  // Full-text search on word prefixes, so a partly typed word still matches ("banan" finds bananas)
+  async searchNutrientFoods(search: NutrientFoodSearch): Promise<{ foods: NutrientFood[]; totalHits: number }> {
+    const terms = searchTerms(search.query);
+    if (terms.length === 0) return { foods: [], totalHits: 0 };
+    
+    const vector = nutrientFoodSearchVector(nutrientFoods);
+    const tsQuery = sql`to_tsquery('english', ${terms.map((term) => `${term}:*`).join(" & ")})`;
+    const where = and(
+      sql`${vector} @@ ${tsQuery}`,
+      search.dataTypes.length > 0 ? inArray(nutrientFoods.dataType, search.dataTypes) : undefined,
+      search.brandOwner ? ilike(nutrientFoods.brandOwner, `%${search.brandOwner.replace(/[\\%_]/g, "\\$&")}%`) : undefined,
+    );
+    
+    const orderBy: SQL[] =
+      search.sort === "newest" ? [sql`${nutrientFoods.publicationDate} desc nulls last`, asc(nutrientFoods.description)]
+      : search.sort === "name" ? [asc(nutrientFoods.description)]
+      : [sql`ts_rank(${vector}, ${tsQuery}) desc`, asc(nutrientFoods.description)];
+    
+    const [foods, [{ total }]] = await Promise.all([
+      db.select()
+        .from(nutrientFoods)
+        .where(where)
+        .orderBy(...orderBy)
+        .limit(search.limit)
+        .offset(search.offset),
+      db.select({ total: count() }).from(nutrientFoods).where(where),
+    ]);
+    return { foods, totalHits: total };
+  }
+  
+  async getNutrientFood(fdcId: number): Promise<NutrientFood | undefined> {
+    const [food] = await db.select().from(nutrientFoods).where(eq(nutrientFoods.fdcId, fdcId));
+    return food;
+  }
+  
+  async getNutrientFoodsByGtin(gtins: string[]): Promise<NutrientFood[]> {
+    if (gtins.length === 0) return [];
+    return await db.select().from(nutrientFoods).where(inArray(nutrientFoods.gtinUpc, gtins));
+  }
+  
+  async upsertNutrientFoods(foods: InsertNutrientFood[]): Promise<number> {
+    if (foods.length === 0) return 0;
+    
+    // On conflict, take every column from the incoming row
+    const { fdcId: _fdcId, ...columns } = getTableColumns(nutrientFoods);
+    const set = Object.fromEntries(
+      Object.entries(columns).map(([key, column]) => [key, sql.raw(`excluded.${column.name}`)])
+    );
+    
+    await db.insert(nutrientFoods)
+      .values(foods)
+      .onConflictDoUpdate({ target: nutrientFoods.fdcId, set });
+    return foods.length;
+  }
+  
+  // Barcode product methods
+  async getBarcodeProduct(id: number): Promise<BarcodeProduct | undefined> {
+    const [product] = await db.select().from(barcodeProducts).where(eq(barcodeProducts.id, id));
+    return product;
+  }
+  
+  async getBarcodeProductByGtin(gtin14: string): Promise<BarcodeProduct | undefined> {
+    const [product] = await db.select().from(barcodeProducts).where(eq(barcodeProducts.gtin, gtin14));
+    return product;
+  }
+  
+  async createBarcodeProduct(product: InsertBarcodeProduct, userId: number | null): Promise<BarcodeProduct> {
+    return await db.transaction(async (tx) => {
+      const [newProduct] = await tx.insert(barcodeProducts)
+        .values({ ...product, revision: 1, createdBy: userId, updatedBy: userId })
+        .returning();
+      await this.recordBarcodeProductRevision(tx, newProduct);
+      return newProduct;
+    });
+  }
+  
+  async updateBarcodeProduct(id: number, updates: UpdateBarcodeProduct, userId: number): Promise<BarcodeProduct | undefined> {
+    return await db.transaction(async (tx) => {
+      // Bumping the revision in SQL keeps two concurrent edits from sharing a number
+      const [updatedProduct] = await tx.update(barcodeProducts)
         .set({
-          caloriesConsumed: totalCalories,
-          proteinConsumed: totalProtein,
-          carbsConsumed: totalCarbs,
-          fatConsumed: totalFat,
-          sugarConsumed: totalSugar
+          ...updates,
+          revision: sql`${barcodeProducts.revision} + 1`,
+          updatedBy: userId,
+          updatedAt: new Date(),
         })
-        .where(eq(dailyProgress.id, progress.id));
-    } else {
-      // Create new progress entry
-      // Parse items to get carbs, fat, sugar
-      const items = meal.items as any[];
-      let totalCarbs = 0;
-      let totalFat = 0;
-      let totalSugar = 0;
-      
-      for (const item of items) {
-        totalCarbs += item.carbs || 0;
-        totalFat += item.fat || 0;
-        totalSugar += item.sugar || 0;
-      }
+        .where(eq(barcodeProducts.id, id))
+        .returning();
+      if (!updatedProduct) return undefined;
       
-      await db.insert(dailyProgress).values({
-        userId: meal.userId,
-        date: meal.date,
-        caloriesConsumed: meal.totalCalories,
-        proteinConsumed: meal.totalProtein,
-        carbsConsumed: totalCarbs,
-        fatConsumed: totalFat,
-        sugarConsumed: totalSugar,
-        workoutMinutes: 0,
-        caloriesBurned: 0
-      });
-    }
+      await this.recordBarcodeProductRevision(tx, updatedProduct);
+      return updatedProduct;
+    });
+  }
+  
+  async getBarcodeProductRevisions(productId: number): Promise<BarcodeProductRevision[]> {
+    return await db.select()
+      .from(barcodeProductRevisions)
+      .where(eq(barcodeProductRevisions.productId, productId))
+      .orderBy(desc(barcodeProductRevisions.revision));
+  }
+  
+  // Helper methods
+  private async recordBarcodeProductRevision(tx: Transaction, product: BarcodeProduct): Promise<void> {
+    await tx.insert(barcodeProductRevisions).values({
+      productId: product.id,
+      revision: product.revision,
+      userId: product.updatedBy,
+      label: barcodeProductLabel(product),
+      createdAt: product.updatedAt,
+    });
   }
   
-  private async updateDailyProgressAfterWorkout(workout: Workout): Promise<void> {
-    const progress = await this.getDailyProgress(workout.userId, workout.date);
+  // Serialise progress writes per user so two requests can't both insert a
+  // progress row for the same day, or recompute from each other's stale reads.
+  // The lock is released when the transaction ends.
+  private async lockUserProgress(tx: Transaction, userId: number): Promise<void> {
+    await tx.execute(sql`select pg_advisory_xact_lock(${userId})`);
+  }
+  
+  // Rebuild a day's progress row from the meals and workouts logged on it
+  private async recalculateDailyProgress(
+    tx: Transaction,
+    userId: number,
+    date: string,
+    write = true
+  ): Promise<DayProgressRebuild | undefined> {
+    const dayMeals = await tx
+      .select()
+      .from(meals)
+      .where(and(eq(meals.userId, userId), eq(meals.date, date)));
     
-    if (progress) {
-      // Get all workouts for today
-      const workouts = await this.getWorkoutsByDate(workout.userId, workout.date);
-      
-      // Calculate total workout stats
-      let totalMinutes = 0;
-      let totalCaloriesBurned = 0;
-      let totalRowingMeters = 0;
-      
-      // Loop through each workout and extract metrics
-      for (const w of workouts) {
-        totalMinutes += w.durationMinutes;
-        totalCaloriesBurned += w.caloriesBurned;
-        
-        // Add rowing meters if this is a rowing workout
-        if (w.type === 'rowing' && w.details && typeof w.details === 'object') {
-          const details = w.details as Record<string, any>;
-          if (details.rowingMeters) {
-            totalRowingMeters += Number(details.rowingMeters) || 0;
-          }
-        }
-      }
-      
-      // Update progress
-      await db
-        .update(dailyProgress)
-        .set({
-          workoutMinutes: totalMinutes,
-          caloriesBurned: totalCaloriesBurned,
-          rowingMeters: totalRowingMeters
-        })
-        .where(eq(dailyProgress.id, progress.id));
-    } else {
-      // Extract rowing meters if this is a rowing workout
-      let rowingMeters = 0;
-      if (workout.type === 'rowing' && workout.details && typeof workout.details === 'object') {
-        const details = workout.details as Record<string, any>;
-        if (details.rowingMeters) {
-          rowingMeters = Number(details.rowingMeters) || 0;
-        }
+    const dayWorkouts = await tx
+      .select()
+      .from(workouts)
+      .where(and(eq(workouts.userId, userId), eq(workouts.date, date)));
+    
+    const [progress] = await tx
+      .select()
+      .from(dailyProgress)
+      .where(and(eq(dailyProgress.userId, userId), eq(dailyProgress.date, date)));
+    
+    // Nothing logged and nothing to reset
+    if (!progress && dayMeals.length === 0 && dayWorkouts.length === 0) {
+      return undefined;
+    }
+    
+    const totals = aggregateDayTotals(dayMeals, dayWorkouts);
+    if (write) {
+      if (progress) {
+        await tx
+          .update(dailyProgress)
+          .set(totals)
+          .where(eq(dailyProgress.id, progress.id));
+      } else {
+        await tx.insert(dailyProgress).values({ userId, date, ...totals });
       }
-      
-      // Create new progress entry
-      await db.insert(dailyProgress).values({
-        userId: workout.userId,
-        date: workout.date,
-        caloriesConsumed: 0,
-        proteinConsumed: 0,
-        carbsConsumed: 0,
-        fatConsumed: 0,
-        sugarConsumed: 0,
-        workoutMinutes: workout.durationMinutes,
-        caloriesBurned: workout.caloriesBurned,
-        rowingMeters: rowingMeters
-      });
     }
+    return { previous: progress, totals };
   }
 }
 
@@ -1044,7 +1715,7 @@ export async function initDatabase() {
   if (users.length === 0) {
     await db.insert(schema.users).values({
       username: "demo",
-      password: "password123",
+      password: await hashPassword("password123"),
       calorieGoal: 2000,
       proteinGoal: 120,
       carbsGoal: 250,
@@ -1236,6 +1907,14 @@ export async function initDatabase() {
     }
   }
   
+  // Add sample barcode products if none exist
+  const barcodeProductsList = await db.select().from(schema.barcodeProducts);
+  if (barcodeProductsList.length === 0) {
+    for (const product of sampleBarcodeProducts) {
+      await storage.createBarcodeProduct(product, null);
+    }
+  }
+  
   // For a demo user, create some example meals, workouts and progress
   const userId = 1; // Assuming first user is id 1
   
@@ -1243,7 +1922,7 @@ export async function initDatabase() {
   const userMeals = await db.select().from(schema.meals).where(eq(schema.meals.userId, userId));
   if (userMeals.length === 0) {
     // Create a meal
-    const today = new Date();
+    const today = toDateKey(new Date(), DEFAULT_TIME_ZONE);
     
     // Breakfast
     await db.insert(schema.meals).values({
@@ -1341,7 +2020,7 @@ export async function initDatabase() {
   const userWorkouts = await db.select().from(schema.workouts).where(eq(schema.workouts.userId, userId));
   if (userWorkouts.length === 0) {
     // Create a workout
-    const today = new Date();
+    const today = toDateKey(new Date(), DEFAULT_TIME_ZONE);
     
     await db.insert(schema.workouts).values({
       userId,
@@ -1381,7 +2060,7 @@ export async function initDatabase() {
   // Add daily progress if none exists
   const userProgress = await db.select().from(schema.dailyProgress).where(eq(schema.dailyProgress.userId, userId));
   if (userProgress.length === 0) {
-    const today = new Date();
+    const today = toDateKey(new Date(), DEFAULT_TIME_ZONE);
     
     await db.insert(schema.dailyProgress).values({
       userId,
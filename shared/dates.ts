@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+// Meals, workouts and daily progress are bucketed by calendar date, kept as
+// "YYYY-MM-DD" strings. A calendar date only means something in a time zone,
+// so converting an instant to one always goes through toDateKey with the
+// user's zone - never toISOString(), which gives the date in UTC.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function isValidDateKey(value: string): boolean {
+  const match = DATE_KEY_PATTERN.exec(value);
+  if (!match) return false;
+
+  // Reject dates like 2024-02-30 that Date would silently roll over
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+export const dateKeySchema = z
+  .string()
+  .refine(isValidDateKey, "Dates must be in YYYY-MM-DD format");
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Must be an IANA time zone such as America/New_York");
+
+// The time zone the current runtime (usually the browser) is in
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+}
+
+// The calendar date an instant falls on in a time zone. Without a zone the
+// runtime's own is used, which is what a date picker's Date means.
+export function toDateKey(date: Date | number = new Date(), timeZone?: string): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+// The clock time an instant falls on in a time zone, the way meals record it (e.g. "8:05 AM")
+export function toTimeLabel(date: Date | number = new Date(), timeZone?: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(date);
+}
+
+// Read a calendar date from a request value. Date keys pass straight through;
+// full timestamps (older clients send ISO strings) are converted in the given
+// zone. Returns undefined for anything that isn't a date.
+export function parseDateKey(value: unknown, timeZone?: string): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : toDateKey(value, timeZone);
+  }
+  if (typeof value !== "string") return undefined;
+  if (isValidDateKey(value)) return value;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : toDateKey(date, timeZone);
+}
+
+// Midnight local time on a calendar date, for date pickers and formatting
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Move a calendar date by a number of days
+export function addDaysToKey(key: string, days: number): string {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0];
+}
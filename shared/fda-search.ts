@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { NormalizedFood } from "./normalized-food";
+
+// FoodData Central data types, as its API names them. Everything but Branded
+// is a whole or generic food.
+export const fdaDataTypes = ["Branded", "Foundation", "SR Legacy", "Survey (FNDDS)"] as const;
+export type FdaDataType = (typeof fdaDataTypes)[number];
+
+export const fdaDataTypeLabels: Record<FdaDataType, string> = {
+  Branded: "Branded",
+  Foundation: "Foundation",
+  "SR Legacy": "SR Legacy",
+  "Survey (FNDDS)": "Survey",
+};
+
+// relevance: FDC's order, re-ranked by rankFdaFoods. name: A to Z. newest: most recently published first.
+export const fdaSearchSorts = ["relevance", "name", "newest"] as const;
+export type FdaSearchSort = (typeof fdaSearchSorts)[number];
+
+export const fdaSearchSortLabels: Record<FdaSearchSort, string> = {
+  relevance: "Best match",
+  name: "Name",
+  newest: "Newest",
+};
+
+export const MAX_FDA_PAGE_SIZE = 200; // FDC's own limit
+
+// Query string of /api/fda/search. dataType is comma-separated, as FDC takes it.
+export const fdaSearchQuerySchema = z.object({
+  q: z.string({ required_error: "Search query is required" }).trim().min(1, "Search query is required"),
+  pageSize: z.coerce.number().int().min(1).max(MAX_FDA_PAGE_SIZE).default(10),
+  pageNumber: z.coerce.number().int().min(1).default(1),
+  dataType: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((type) => type.trim()).filter(Boolean) : []))
+    .pipe(z.array(z.enum(fdaDataTypes))),
+  brandOwner: z.string().trim().optional().transform((value) => value || undefined),
+  sort: z.enum(fdaSearchSorts).default("relevance"),
+});
+
+export type FdaSearchQuery = z.infer<typeof fdaSearchQuerySchema>;
+
+// Queries this short with no brand in them are usually after the plain food
+const GENERIC_QUERY_MAX_WORDS = 2;
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+// Branded entries that differ only in punctuation, case or package size repeat
+// the same product; they share a name, brand and (rounded) calories
+function brandedDuplicateKey(food: NormalizedFood): string | undefined {
+  if (food.dataType !== "Branded") return undefined;
+  return [words(food.name).join(" "), words(food.brand ?? "").join(" "), Math.round(food.per100g.calories)].join("|");
+}
+
+// Re-rank one page of relevance-ordered results: near-identical branded
+// entries are dropped, and for short generic queries ("banana", "greek yogurt")
+// whole foods come before branded ones, names starting with the query first.
+// Otherwise FDC's order is kept.
+export function rankFdaFoods(foods: NormalizedFood[], query: string, brandOwner?: string): NormalizedFood[] {
+  const seen = new Set<string>();
+  const unique = foods.filter((food) => {
+    const key = brandedDuplicateKey(food);
+    if (!key) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const queryWords = words(query);
+  if (brandOwner || queryWords.length === 0 || queryWords.length > GENERIC_QUERY_MAX_WORDS) {
+    return unique;
+  }
+
+  // Lower tiers first; FDC's order breaks ties
+  const tier = (food: NormalizedFood) => {
+    const nameWords = words(food.name);
+    const leads = queryWords.every((word, index) => nameWords[index]?.startsWith(word));
+    return (food.dataType === "Branded" ? 2 : 0) + (leads ? 0 : 1);
+  };
+
+  return unique
+    .map((food, index) => ({ food, index, tier: tier(food) }))
+    .sort((a, b) => a.tier - b.tier || a.index - b.index)
+    .map(({ food }) => food);
+}
@@ -0,0 +1,45 @@
+// Why a FoodData Central request failed. /api/fda/* error responses carry one
+// as { message, code } so clients can explain the problem instead of showing
+// a bare status.
+export const fdcErrorCodes = [
+  "not_configured", // no API key or stand-in set up on the server
+  "key_invalid", // FDC rejected the API key
+  "quota_exhausted", // the key has used up its hourly requests
+  "upstream_down", // FDC couldn't be reached or answered with a server error
+  "timeout", // FDC took longer than the configured timeout
+  "bad_response", // FDC answered with something other than the JSON asked for
+  "not_found",
+] as const;
+
+export type FdcErrorCode = (typeof fdcErrorCodes)[number];
+
+export interface FdcErrorResponse {
+  message: string;
+  code: FdcErrorCode;
+}
+
+// What each failure means for someone using the app
+export const fdcErrorDescriptions: Record<FdcErrorCode, string> = {
+  not_configured: "No FDA API key is configured on the server.",
+  key_invalid: "The server's FDA API key was rejected. It may have been mistyped or disabled.",
+  quota_exhausted: "The server's FDA API key has used up its requests for now. Searches will work again when the limit resets, usually within the hour.",
+  upstream_down: "FoodData Central isn't responding right now. Foods you've searched for before still work.",
+  timeout: "FoodData Central is taking too long to respond. Try again in a little while.",
+  bad_response: "FoodData Central sent a response the app couldn't read.",
+  not_found: "That food isn't in FoodData Central.",
+};
+
+// GET /api/fda/status when the food database answers. local: the imported
+// nutrient_foods table. usda: USDA's API. custom: another FDC server, such as
+// the stand-in.
+export interface FdaStatusResponse {
+  source: "local" | "usda" | "custom";
+}
+
+export function isFdcErrorResponse(body: unknown): body is FdcErrorResponse {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    fdcErrorCodes.includes((body as { code?: FdcErrorCode }).code as FdcErrorCode)
+  );
+}
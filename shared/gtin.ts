@@ -0,0 +1,128 @@
+// Product barcodes. UPC-E, UPC-A, EAN-8, EAN-13 and GTIN-14 are all GTINs:
+// padded with leading zeros to 14 digits, the same product has the same number.
+// UPC-E is the exception, a zero-suppressed UPC-A that has to be expanded first.
+
+export type GtinFormat = "UPC-E" | "EAN-8" | "UPC-A" | "EAN-13" | "GTIN-14";
+
+export interface Gtin {
+  gtin14: string;
+  format: GtinFormat; // how it was scanned or typed
+}
+
+// The mod-10 check digit for the digits before it: from the right, digits
+// are weighted 3, 1, 3, 1...
+export function gtinCheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+const hasValidCheckDigit = (code: string) =>
+  gtinCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+
+// Expand an 8-digit UPC-E (number system, six digits, check digit) to UPC-A.
+// The last of the six digits says where the zeros were taken out.
+export function expandUpcE(code: string): string | undefined {
+  if (!/^[01]\d{7}$/.test(code)) return undefined;
+
+  const [system, d1, d2, d3, d4, d5, d6, check] = code.split("");
+  let body: string;
+  if (d6 <= "2") {
+    body = `${system}${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === "3") {
+    body = `${system}${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === "4") {
+    body = `${system}${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${system}${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${body}${check}`;
+}
+
+// The UPC-E form of a UPC-A, when it has one
+export function compressUpcA(code: string): string | undefined {
+  if (!/^[01]\d{11}$/.test(code)) return undefined;
+
+  const system = code[0];
+  const maker = code.slice(1, 6);
+  const product = code.slice(6, 11);
+  const check = code[11];
+
+  let digits: string | undefined;
+  if (/^\d\d[0-2]00$/.test(maker) && product.startsWith("00")) {
+    digits = `${maker.slice(0, 2)}${product.slice(2)}${maker[2]}`;
+  } else if (maker.endsWith("00") && product.startsWith("000")) {
+    digits = `${maker.slice(0, 3)}${product.slice(3)}3`;
+  } else if (maker.endsWith("0") && product.startsWith("0000")) {
+    digits = `${maker.slice(0, 4)}${product[4]}4`;
+  } else if (product.startsWith("0000") && product[4] >= "5") {
+    digits = `${maker}${product[4]}`;
+  }
+
+  const upcE = digits && `${system}${digits}${check}`;
+  return upcE && expandUpcE(upcE) === code ? upcE : undefined;
+}
+
+// Read a scanned or typed barcode. Spaces and dashes are ignored; anything
+// else that isn't a digit, a length no format has, or a wrong check digit
+// means it was misread, and undefined is returned.
+export function parseGtin(code: string): Gtin | undefined {
+  const digits = code.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits)) return undefined;
+
+  switch (digits.length) {
+    case 8: {
+      // UPC-E and EAN-8 are both 8 digits; a UPC-E's check digit is its UPC-A's
+      const upcA = expandUpcE(digits);
+      if (upcA && hasValidCheckDigit(upcA)) {
+        return { gtin14: upcA.padStart(14, "0"), format: "UPC-E" };
+      }
+      return hasValidCheckDigit(digits) ? { gtin14: digits.padStart(14, "0"), format: "EAN-8" } : undefined;
+    }
+    case 12:
+    case 13:
+    case 14: {
+      if (!hasValidCheckDigit(digits)) return undefined;
+      const format: GtinFormat = digits.length === 12 ? "UPC-A" : digits.length === 13 ? "EAN-13" : "GTIN-14";
+      return { gtin14: digits.padStart(14, "0"), format };
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function isValidGtin(code: string): boolean {
+  return parseGtin(code) !== undefined;
+}
+
+// Every way the same product number can be written, most widely used first:
+// UPC-A, EAN-13, GTIN-14, then UPC-E or EAN-8 where the number fits one
+export function gtinForms(gtin: Gtin): string[] {
+  const { gtin14 } = gtin;
+  const forms: string[] = [];
+
+  if (gtin14.startsWith("00")) forms.push(gtin14.slice(2));
+  if (gtin14.startsWith("0")) forms.push(gtin14.slice(1));
+  forms.push(gtin14);
+
+  const upcE = gtin14.startsWith("00") ? compressUpcA(gtin14.slice(2)) : undefined;
+  if (upcE) forms.push(upcE);
+  if (gtin14.startsWith("000000")) forms.push(gtin14.slice(6));
+
+  return forms;
+}
+
+// Whether a barcode stored elsewhere is this product. Stored values aren't
+// always valid (some databases drop leading zeros), so they are only padded.
+export function sameGtin(stored: string | null | undefined, gtin: Gtin): boolean {
+  if (!stored) return false;
+
+  const digits = stored.replace(/[\s-]/g, "");
+  if (!/^\d{1,14}$/.test(digits)) return false;
+
+  const parsed = digits.length === 8 ? parseGtin(digits) : undefined;
+  return (parsed?.gtin14 ?? digits.padStart(14, "0")) === gtin.gtin14;
+}
@@ -0,0 +1,263 @@
+import { servingSizeToGrams, type NutrientValues } from "./units";
+import { parseGtin, gtinForms } from "./gtin";
+import type { BarcodeProduct } from "./schema";
+
+// FoodData Central reports foods in two shapes: /foods/search lists nutrients
+// flat ({ nutrientId, nutrientNumber, value }), /food/{fdcId} nests them
+// ({ nutrient: { id, number }, amount }), and names vary between data types.
+// The server turns both into a NormalizedFood, matching nutrients by FDC
+// nutrient id, so clients never read FDC responses directly.
+
+// The parts of FDC responses read here. Data types fill in different fields,
+// so all of them are optional.
+export interface FdcFoodNutrient {
+  nutrientId?: number | string; // search results
+  nutrientNumber?: string | number;
+  nutrientName?: string;
+  unitName?: string;
+  value?: number | null;
+  nutrient?: { id?: number | string; number?: string | number; name?: string; unitName?: string }; // food details
+  amount?: number | null;
+}
+
+// Label values of branded food details, per serving, keyed like "calories" or "sugars"
+export type FdcLabelNutrients = Partial<Record<string, { value?: number }>>;
+
+export interface FdcFoodPortion {
+  gramWeight?: number;
+  amount?: number;
+  portionDescription?: string;
+  modifier?: string;
+  measureUnit?: { name?: string };
+}
+
+export interface FdcFood {
+  fdcId?: number;
+  description?: string;
+  dataType?: string;
+  brandName?: string;
+  brandOwner?: string;
+  gtinUpc?: string;
+  foodCode?: string;
+  ingredients?: string;
+  foodCategory?: string | { description?: string }; // a string in search results
+  brandedFoodCategory?: string;
+  publicationDate?: string; // M/D/YYYY
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodPortions?: FdcFoodPortion[];
+  foodNutrients?: FdcFoodNutrient[];
+  labelNutrients?: FdcLabelNutrients;
+}
+
+export interface FdcSearchResponse {
+  foods?: FdcFood[];
+  totalHits?: number;
+  totalPages?: number;
+}
+
+export interface FoodNutrients extends NutrientValues {
+  saturatedFat: number;
+}
+
+export interface NormalizedServing {
+  size: number;
+  unit: string; // as reported, e.g. "g", "ml", "GRM"
+  grams?: number; // when the unit converts
+  label?: string; // household measure, e.g. "1 cup"
+}
+
+export interface NormalizedFood {
+  fdcId?: number; // absent for barcode registry products
+  name: string;
+  brand?: string;
+  brandOwner?: string; // the company, which search can filter by
+  dataType: string;
+  gtinUpc?: string;
+  ingredients?: string;
+  foodCategory?: string;
+  serving?: NormalizedServing;
+  per100g: FoodNutrients;
+  perServing?: FoodNutrients; // from the label, or scaled when the serving weight is known
+  barcodeProduct?: BarcodeProduct; // set when the food came from the barcode registry
+}
+
+export interface NormalizedSearchResponse {
+  totalHits: number;
+  currentPage: number;
+  totalPages: number;
+  foods: NormalizedFood[];
+}
+
+export interface NormalizedBarcodeResponse {
+  foods: NormalizedFood[];
+}
+
+// FDC nutrient ids for each value, best first, with the nutrient numbers older
+// records carry instead. Foundation foods often report energy only as Atwater
+// factors (2047, 2048) and carbohydrate or sugar under newer ids.
+export const FDC_NUTRIENTS: Record<keyof FoodNutrients, { id: number; number: string }[]> = {
+  calories: [{ id: 1008, number: "208" }, { id: 2047, number: "957" }, { id: 2048, number: "958" }],
+  protein: [{ id: 1003, number: "203" }],
+  fat: [{ id: 1004, number: "204" }],
+  carbs: [{ id: 1005, number: "205" }, { id: 1050, number: "205.2" }],
+  sugar: [{ id: 2000, number: "269" }, { id: 1063, number: "269.3" }],
+  fiber: [{ id: 1079, number: "291" }],
+  sodium: [{ id: 1093, number: "307" }],
+  saturatedFat: [{ id: 1258, number: "606" }],
+};
+
+// Label nutrient keys in branded food details, which are per serving
+const LABEL_NUTRIENTS: Record<keyof FoodNutrients, string> = {
+  calories: "calories",
+  protein: "protein",
+  fat: "fat",
+  carbs: "carbohydrates",
+  sugar: "sugars",
+  fiber: "fiber",
+  sodium: "sodium",
+  saturatedFat: "saturatedFat",
+};
+
+const nutrientKeys = Object.keys(FDC_NUTRIENTS) as (keyof FoodNutrients)[];
+
+const emptyNutrients = (): FoodNutrients => ({
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  sugar: 0,
+  fiber: 0,
+  sodium: 0,
+  saturatedFat: 0,
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Which value a nutrient entry fills, and how good a source it is (0 is best)
+function matchNutrient(id: number | undefined, number: string | undefined) {
+  for (const key of nutrientKeys) {
+    const rank = FDC_NUTRIENTS[key].findIndex((nutrient) =>
+      id !== undefined ? nutrient.id === id : nutrient.number === number
+    );
+    if (rank !== -1) return { key, rank };
+  }
+  return undefined;
+}
+
+// Nutrients per 100 g from either response shape
+export function extractFdcNutrients(foodNutrients: FdcFoodNutrient[] | undefined): FoodNutrients {
+  const nutrients = emptyNutrients();
+  const ranks: Partial<Record<keyof FoodNutrients, number>> = {};
+
+  for (const item of foodNutrients ?? []) {
+    const id = item.nutrientId ?? item.nutrient?.id;
+    const number = item.nutrientNumber ?? item.nutrient?.number;
+    const value = item.value ?? item.amount;
+    const match = matchNutrient(id === undefined ? undefined : Number(id), number === undefined ? undefined : String(number));
+    if (!match || typeof value !== "number") continue;
+
+    const current = ranks[match.key];
+    if (current === undefined || match.rank < current) {
+      nutrients[match.key] = value;
+      ranks[match.key] = match.rank;
+    }
+  }
+  return nutrients;
+}
+
+export function scaleFoodNutrients(nutrients: FoodNutrients, factor: number): FoodNutrients {
+  return Object.fromEntries(nutrientKeys.map((key) => [key, round2(nutrients[key] * factor)])) as unknown as FoodNutrients;
+}
+
+// Branded foods state their serving size; survey and SR foods list household
+// portions in their details, of which the first is the usual one
+function fdcServing(food: FdcFood): NormalizedServing | undefined {
+  if (food.servingSize && food.servingSize > 0) {
+    const unit = food.servingSizeUnit || "g";
+    return {
+      size: food.servingSize,
+      unit,
+      grams: servingSizeToGrams(food.servingSize, unit),
+      label: food.householdServingFullText || undefined,
+    };
+  }
+
+  const portion = (food.foodPortions ?? []).find((candidate) => candidate.gramWeight && candidate.gramWeight > 0);
+  if (portion?.gramWeight) {
+    const measure = portion.portionDescription && portion.portionDescription !== "Quantity not specified"
+      ? portion.portionDescription
+      : [portion.amount, portion.measureUnit?.name !== "undetermined" ? portion.measureUnit?.name : undefined, portion.modifier]
+          .filter(Boolean)
+          .join(" ");
+    return { size: portion.gramWeight, unit: "g", grams: portion.gramWeight, label: measure || undefined };
+  }
+
+  return undefined;
+}
+
+function labelNutrients(label: FdcLabelNutrients | undefined): FoodNutrients | undefined {
+  if (!label || typeof label !== "object") return undefined;
+
+  const nutrients = emptyNutrients();
+  for (const key of nutrientKeys) {
+    const value = label[LABEL_NUTRIENTS[key]]?.value;
+    if (typeof value === "number") nutrients[key] = value;
+  }
+  return nutrients;
+}
+
+// A /foods/search result or /food/{fdcId} record as a NormalizedFood
+export function normalizeFdcFood(food: FdcFood): NormalizedFood {
+  const per100g = extractFdcNutrients(food.foodNutrients);
+  const serving = fdcServing(food);
+  const category = typeof food.foodCategory === "string" ? food.foodCategory : food.foodCategory?.description;
+
+  return {
+    fdcId: typeof food.fdcId === "number" ? food.fdcId : undefined,
+    name: food.description || food.brandName || "Food Item",
+    brand: food.brandName || food.brandOwner || undefined,
+    brandOwner: food.brandOwner || undefined,
+    dataType: food.dataType ?? "Unknown",
+    gtinUpc: food.gtinUpc || undefined,
+    ingredients: food.ingredients || undefined,
+    foodCategory: category || food.brandedFoodCategory || undefined,
+    serving,
+    per100g,
+    perServing: labelNutrients(food.labelNutrients) ?? (serving?.grams ? scaleFoodNutrients(per100g, serving.grams / 100) : undefined),
+  };
+}
+
+// A barcode registry product. Its label values are per serving and kept as entered.
+export function normalizeBarcodeProduct(product: BarcodeProduct): NormalizedFood {
+  const perServing: FoodNutrients = {
+    calories: product.calories,
+    protein: product.protein,
+    carbs: product.carbs,
+    fat: product.fat,
+    sugar: product.sugar,
+    fiber: product.fiber,
+    sodium: product.sodium,
+    saturatedFat: 0, // not asked for when registering a product
+  };
+  const grams = servingSizeToGrams(product.servingSize, product.servingSizeUnit) ?? product.servingSize;
+  const gtin = parseGtin(product.gtin);
+
+  return {
+    name: product.name,
+    brand: product.brand ?? undefined,
+    dataType: "User Submitted",
+    gtinUpc: gtin ? gtinForms(gtin)[0] : product.gtin,
+    ingredients: product.ingredients ?? undefined,
+    serving: {
+      size: product.servingSize,
+      unit: product.servingSizeUnit,
+      grams,
+      label: product.householdServing ?? undefined,
+    },
+    per100g: scaleFoodNutrients(perServing, 100 / grams),
+    perServing,
+    barcodeProduct: product,
+  };
+}
@@ -0,0 +1,77 @@
+import type { Meal, Workout, WorkoutDetails } from "./schema";
+
+// The derived columns of a daily_progress row
+export interface DayTotals {
+  caloriesConsumed: number;
+  proteinConsumed: number;
+  carbsConsumed: number;
+  fatConsumed: number;
+  sugarConsumed: number;
+  fiberConsumed: number;
+  sodiumConsumed: number; // milligrams
+  workoutMinutes: number;
+  caloriesBurned: number;
+  rowingMeters: number;
+}
+
+type MealTotals = Pick<Meal, "totalCalories" | "totalProtein"> &
+  Partial<Pick<Meal, "totalCarbs" | "totalFat" | "totalSugar" | "totalFiber" | "totalSodium">>;
+
+type WorkoutTotals = Pick<Workout, "type" | "durationMinutes" | "caloriesBurned" | "details">;
+
+// Distance rowed in a workout. Details may still be a JSON string on older rows.
+export function getRowingMeters(workout: WorkoutTotals): number {
+  if (workout.type !== "rowing" || !workout.details) {
+    return 0;
+  }
+
+  let details: WorkoutDetails | null = null;
+  try {
+    details = typeof workout.details === "string"
+      ? JSON.parse(workout.details)
+      : (workout.details as WorkoutDetails);
+  } catch (e) {
+    console.error("Error parsing workout details:", e);
+  }
+  return Number(details?.rowingMeters) || 0;
+}
+
+// Recompute a day's progress from everything logged on it. Every storage
+// backend goes through this, so the totals can't drift between them.
+export function aggregateDayTotals(dayMeals: MealTotals[], dayWorkouts: WorkoutTotals[]): DayTotals {
+  const totals: DayTotals = {
+    caloriesConsumed: 0,
+    proteinConsumed: 0,
+    carbsConsumed: 0,
+    fatConsumed: 0,
+    sugarConsumed: 0,
+    fiberConsumed: 0,
+    sodiumConsumed: 0,
+    workoutMinutes: 0,
+    caloriesBurned: 0,
+    rowingMeters: 0,
+  };
+
+  for (const meal of dayMeals) {
+    totals.caloriesConsumed += meal.totalCalories || 0;
+    totals.proteinConsumed += meal.totalProtein || 0;
+    totals.carbsConsumed += meal.totalCarbs || 0;
+    totals.fatConsumed += meal.totalFat || 0;
+    totals.sugarConsumed += meal.totalSugar || 0;
+    totals.fiberConsumed += meal.totalFiber || 0;
+    totals.sodiumConsumed += meal.totalSodium || 0;
+  }
+
+  for (const workout of dayWorkouts) {
+    totals.workoutMinutes += workout.durationMinutes || 0;
+    totals.caloriesBurned += workout.caloriesBurned || 0;
+    totals.rowingMeters += getRowingMeters(workout);
+  }
+
+  // Integer columns
+  totals.caloriesConsumed = Math.round(totals.caloriesConsumed);
+  totals.caloriesBurned = Math.round(totals.caloriesBurned);
+  totals.rowingMeters = Math.round(totals.rowingMeters);
+
+  return totals;
+}
@@ -0,0 +1,318 @@
+import { z } from "zod";
+import type { FoodItem, Meal, MealItem, Recipe } from "./schema";
+import {
+  availableUnits,
+  defaultQuantity,
+  foodItemPortion,
+  parseCupGrams,
+  quantityToGrams,
+  scaleNutrients,
+  type FoodPortion,
+  type QuantityUnit,
+} from "./units";
+import { recipePortion } from "./recipes";
+import { summarizeRecentFoods } from "./recent-foods";
+import type { NormalizedFood } from "./normalized-food";
+
+// Quick logging turns a sentence like "2 eggs and a slice of toast" into draft
+// meal items. Everything here is a fixed lexicon and string matching, so the
+// same text always gives the same drafts and nothing leaves the server.
+
+export const quickLogRequestSchema = z.object({
+  text: z.string().trim().min(1, "Describe what you ate").max(500, "Keep the description under 500 characters"),
+});
+
+// One food mentioned in the text, before it is matched to anything
+export interface FoodPhrase {
+  text: string;
+  amount: number;
+  unit?: QuantityUnit;
+  foodName: string;
+}
+
+// Something a phrase can resolve to
+export interface FoodCandidate {
+  name: string;
+  portion: FoodPortion;
+  source: "custom" | "recipe" | "history" | "fda";
+  recipeId?: number;
+}
+
+export interface QuickLogDraft extends FoodPhrase {
+  item: MealItem | null;
+  source: FoodCandidate["source"] | null;
+}
+
+const NUMBER_WORDS = new Map<string, number>(Object.entries({
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  half: 0.5, quarter: 0.25, couple: 2, few: 3, dozen: 12,
+}));
+
+// Whole numbers that can start "<number> and a half"
+const WHOLE_NUMBER_WORDS = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten", "eleven", "twelve"];
+const AND_A_HALF = new RegExp(String.raw`\b(\d+|${WHOLE_NUMBER_WORDS.join("|")})\s+and\s+a\s+half\b`, "gi");
+
+const UNICODE_FRACTIONS: Record<string, string> = { "½": ".5", "¼": ".25", "¾": ".75", "⅓": ".333", "⅔": ".667" };
+
+// Unit words, as the unit they are logged in and how many of it one is
+const UNIT_LEXICON = new Map<string, { unit: QuantityUnit; factor: number }>();
+const addUnits = (words: string[], unit: QuantityUnit, factor = 1) => {
+  for (const word of words) UNIT_LEXICON.set(word, { unit, factor });
+};
+addUnits(["g", "gr", "gm", "gram", "grams", "gramme", "grammes"], "g");
+addUnits(["kg", "kilo", "kilos", "kilogram", "kilograms"], "g", 1000);
+// Millilitres are treated as grams, as elsewhere
+addUnits(["ml", "milliliter", "milliliters", "millilitre", "millilitres"], "g");
+addUnits(["l", "liter", "liters", "litre", "litres"], "g", 1000);
+addUnits(["oz", "ounce", "ounces"], "oz");
+addUnits(["lb", "lbs", "pound", "pounds"], "oz", 16);
+addUnits(["cup", "cups", "c"], "cup");
+addUnits(["tbsp", "tbs", "tablespoon", "tablespoons"], "cup", 1 / 16);
+addUnits(["tsp", "teaspoon", "teaspoons"], "cup", 1 / 48);
+addUnits([
+  "serving", "servings", "portion", "portions", "piece", "pieces", "pc", "pcs",
+  "slice", "slices", "item", "items", "each", "bowl", "bowls", "glass", "glasses",
+  "can", "cans", "bottle", "bottles", "bar", "bars", "scoop", "scoops",
+  "handful", "handfuls", "plate", "plates", "mug", "mugs",
+], "serving");
+
+// Words that say nothing about which food it is
+const FILLER_WORDS = new Set(["a", "an", "of", "the", "some", "small", "medium", "large", "big", "whole", "x"]);
+
+// Commas, semicolons, "+" and new lines always separate foods. "and", "with",
+// "plus" and "&" also turn up inside food names ("mac and cheese"), so they
+// are kept (the capture group) in case the words either side belong together.
+const LIST_SEPARATOR = /\s*(?:,|;|\n|\+)\s*/;
+const JOINING_WORD = /(\s*(?:&|\band\b|\bwith\b|\bplus\b)\s*)/i;
+
+const LEADING_NUMBER = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.\d+|\d+)/;
+// The second number of "2 x 100g", once the first has been read
+const MULTIPLIED_NUMBER = /^x\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.\d+|\d+)/;
+
+function parseNumber(text: string): number {
+  if (text.includes("/")) {
+    const [whole, fraction] = text.includes(" ") ? text.split(/\s+/) : ["0", text];
+    const [num, den] = fraction.split("/").map(Number);
+    return Number(whole) + (den ? num / den : 0);
+  }
+  return Number(text);
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Read one phrase: an optional quantity, an optional unit, then the food
+export function parseFoodPhrase(text: string): FoodPhrase | undefined {
+  let rest = text
+    .toLowerCase()
+    .replace(/(\d)\s*([½¼¾⅓⅔])/g, "$1$2")
+    .replace(/[½¼¾⅓⅔]/g, (fraction) => UNICODE_FRACTIONS[fraction])
+    .replace(/(\d)\s*[×*]\s*/g, "$1 x ")
+    .replace(/[^a-z0-9./\s'-]/g, " ")
+    .trim();
+
+  let amount: number | undefined;
+  const numberMatch = rest.match(LEADING_NUMBER);
+  if (numberMatch) {
+    amount = parseNumber(numberMatch[1]);
+    rest = rest.slice(numberMatch[0].length).trim();
+
+    // "2 x 100g chicken" is two lots of 100 g, and the unit still follows
+    const multiplierMatch = rest.match(MULTIPLIED_NUMBER);
+    if (multiplierMatch) {
+      amount *= parseNumber(multiplierMatch[1]);
+      rest = rest.slice(multiplierMatch[0].length).trim();
+    }
+  }
+
+  let words = rest.split(/\s+/).filter(Boolean);
+
+  // Number words, including "half a", "a half" and "a dozen"
+  while (words.length > 0 && NUMBER_WORDS.has(words[0])) {
+    const value = NUMBER_WORDS.get(words.shift()!)!;
+    amount = amount === undefined || value === 1 ? (amount ?? value) : amount * value;
+  }
+
+  let unit: QuantityUnit | undefined;
+  // A unit needs a food after it: "2 cups rice", but "a can" is just a can
+  const unitMatch = words.length > 1 ? UNIT_LEXICON.get(words[0]) : undefined;
+  if (unitMatch) {
+    words.shift();
+    unit = unitMatch.unit;
+    amount = (amount ?? 1) * unitMatch.factor;
+  }
+
+  words = words.filter((word) => !FILLER_WORDS.has(word));
+  const foodName = words.join(" ").trim();
+  if (!foodName) return undefined;
+
+  return { text: text.trim(), amount: round3(amount ?? 1), unit, foodName };
+}
+
+// Whether some candidate's name has every word of this food name
+function isKnownName(foodName: string, candidates: FoodCandidate[]): boolean {
+  const query = Array.from(nameTokens(foodName));
+  return query.length > 0 && candidates.some((candidate) => {
+    const tokens = nameTokens(candidate.name);
+    return query.every((token) => tokens.has(token));
+  });
+}
+
+// Split a list item on joining words, except where the words either side make
+// up a known name: the longest run from the left that names a candidate stays whole
+function splitJoinedFoods(item: string, candidates: FoodCandidate[]): string[] {
+  // Parts at even indices, the joining words between them at odd ones
+  const pieces = item.split(JOINING_WORD);
+  const phrases: string[] = [];
+
+  for (let start = 0; start < pieces.length; ) {
+    let end = pieces.length - 1;
+    for (; end > start; end -= 2) {
+      const phrase = parseFoodPhrase(pieces.slice(start, end + 1).join(""));
+      if (phrase && isKnownName(phrase.foodName, candidates)) break;
+    }
+    phrases.push(pieces.slice(start, end + 1).join(""));
+    start = end + 2;
+  }
+  return phrases;
+}
+
+// Split a description into food phrases, keeping candidate names such as
+// "Mac & Cheese" or "Chicken with Rice" together
+export function parseMealDescription(text: string, candidates: FoodCandidate[] = []): FoodPhrase[] {
+  return text
+    // "1 and a half cups" and "two and a half cups" are one quantity, not two phrases
+    .replace(AND_A_HALF, (_, whole: string) => `${/^\d/.test(whole) ? whole : NUMBER_WORDS.get(whole.toLowerCase())}.5`)
+    .split(LIST_SEPARATOR)
+    .flatMap((item) => splitJoinedFoods(item, candidates))
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(parseFoodPhrase)
+    .filter((phrase): phrase is FoodPhrase => phrase !== undefined);
+}
+
+// Lower case, no punctuation, crude singular: "Tomatoes," -> "tomato"
+function normalizeWord(word: string): string {
+  const clean = word.toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (clean.length > 4 && clean.endsWith("ies")) return clean.slice(0, -3) + "y";
+  if (clean.length > 4 && /(oes|ches|shes|xes)$/.test(clean)) return clean.slice(0, -2);
+  if (clean.length > 3 && clean.endsWith("s") && !clean.endsWith("ss")) return clean.slice(0, -1);
+  return clean;
+}
+
+function nameTokens(name: string): Set<string> {
+  return new Set(
+    name
+      .replace(/&/g, " and ")
+      .split(/[\s,()/-]+/)
+      .map(normalizeWord)
+      .filter((word) => word && !FILLER_WORDS.has(word))
+  );
+}
+
+// The words of a food name that identify it, singular: "2 ripe Bananas" -> ["ripe", "banana"]
+export function foodNameTerms(foodName: string): string[] {
+  return Array.from(nameTokens(foodName));
+}
+
+// The best candidate for a food name: most of the name's words must appear in
+// the candidate's, and fewer extra words breaks ties. Earlier candidates win
+// remaining ties, so custom foods beat recipes beat history beat FDA foods.
+export function matchFood(foodName: string, candidates: FoodCandidate[]): FoodCandidate | undefined {
+  const query = nameTokens(foodName);
+  if (query.size === 0) return undefined;
+
+  let best: { candidate: FoodCandidate; score: number } | undefined;
+  for (const candidate of candidates) {
+    const tokens = nameTokens(candidate.name);
+    let matched = 0;
+    query.forEach((token) => {
+      if (tokens.has(token)) matched++;
+    });
+
+    const recall = matched / query.size;
+    if (matched === 0 || recall < 0.5) continue;
+
+    const score = recall + 0.1 * (matched / tokens.size);
+    if (!best || score > best.score) {
+      best = { candidate, score };
+    }
+  }
+
+  return best?.candidate;
+}
+
+// Fit a parsed quantity to what the food supports. A bare count ("2 eggs")
+// means servings; a unit the food can't resolve falls back to its default.
+function fitQuantity(portion: FoodPortion, amount: number, unit?: QuantityUnit): { amount: number; unit: QuantityUnit } {
+  const units = availableUnits(portion);
+  if (unit && units.includes(unit)) {
+    return { amount, unit };
+  }
+  if (!unit && units.includes("serving")) {
+    return { amount, unit: "serving" };
+  }
+
+  const fallback = defaultQuantity(portion);
+  return { amount: round3(fallback.amount * amount), unit: fallback.unit };
+}
+
+// An FDA food's nutrients are per 100 g, with its serving as the household measure
+function fdaFoodPortion(food: NormalizedFood): FoodPortion {
+  const { saturatedFat: _saturatedFat, ...nutrients } = food.per100g;
+  return {
+    nutrients,
+    per: "100g",
+    servingGrams: food.serving?.grams,
+    servingLabel: food.serving?.label,
+    cupGrams: parseCupGrams(food.serving?.label, food.serving?.grams, food.serving?.unit),
+  };
+}
+
+// Everything a phrase can be matched against, best sources first. fdaFoods are
+// foods the server already has from FDA: cached API responses and imported foods.
+export function buildFoodCandidates(
+  foodItems: FoodItem[],
+  recipes: Recipe[],
+  meals: Meal[],
+  fdaFoods: NormalizedFood[] = []
+): FoodCandidate[] {
+  const history = summarizeRecentFoods(meals, Number.MAX_SAFE_INTEGER).recent
+    .filter((item) => item.portion && !item.recipeId)
+    .map((item): FoodCandidate => ({ name: item.name, portion: item.portion!, source: "history" }));
+
+  return [
+    ...foodItems.map((food): FoodCandidate => ({ name: food.name, portion: foodItemPortion(food), source: "custom" })),
+    ...recipes.map((recipe): FoodCandidate => ({
+      name: recipe.name,
+      portion: recipePortion(recipe),
+      source: "recipe",
+      recipeId: recipe.id,
+    })),
+    ...history,
+    ...fdaFoods.map((food): FoodCandidate => ({ name: food.name, portion: fdaFoodPortion(food), source: "fda" })),
+  ];
+}
+
+// Parse a description and turn each phrase into a draft meal item.
+// Phrases that match nothing come back with a null item for the user to search.
+export function draftMealItems(text: string, candidates: FoodCandidate[]): QuickLogDraft[] {
+  return parseMealDescription(text, candidates).map((phrase) => {
+    const candidate = matchFood(phrase.foodName, candidates);
+    if (!candidate) {
+      return { ...phrase, item: null, source: null };
+    }
+
+    const quantity = fitQuantity(candidate.portion, phrase.amount, phrase.unit);
+    const item: MealItem = {
+      name: candidate.name,
+      ...scaleNutrients(candidate.portion, quantity.amount, quantity.unit),
+      amount: quantity.amount,
+      unit: quantity.unit,
+      grams: quantityToGrams(quantity.amount, quantity.unit, candidate.portion),
+      portion: candidate.portion,
+      recipeId: candidate.recipeId,
+    };
+    return { ...phrase, item, source: candidate.source };
+  });
+}
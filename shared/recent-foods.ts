@@ -0,0 +1,49 @@
+import type { Meal, MealItem } from "./schema";
+
+export type FrequentFood = MealItem & { count: number };
+
+// A user's most recently and most often logged meal items
+export interface RecentFoods {
+  recent: MealItem[];
+  frequent: FrequentFood[];
+}
+
+export const DEFAULT_RECENT_FOODS_LIMIT = 8;
+
+// The same food logged twice is the same name (and recipe, if it came from one)
+const itemKey = (item: MealItem) => `${item.recipeId ?? ""}:${item.name.trim().toLowerCase()}`;
+
+// Walk the user's meals newest first. Each food is returned as it was last
+// logged, so quick-adding it repeats the last quantity.
+export function summarizeRecentFoods(meals: Meal[], limit = DEFAULT_RECENT_FOODS_LIMIT): RecentFoods {
+  const newestFirst = [...meals].sort((a, b) =>
+    a.date === b.date ? b.id - a.id : a.date < b.date ? 1 : -1
+  );
+
+  const latest = new Map<string, MealItem>();
+  const counts = new Map<string, number>();
+
+  for (const meal of newestFirst) {
+    const items = Array.isArray(meal.items) ? (meal.items as MealItem[]) : [];
+    for (const item of items) {
+      if (!item?.name) continue;
+
+      const key = itemKey(item);
+      if (!latest.has(key)) {
+        latest.set(key, item);
+      }
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  // Map iteration follows insertion order, which is most recent first
+  const recent = Array.from(latest.values()).slice(0, limit);
+
+  // Ties go to the food logged most recently
+  const frequent = Array.from(latest.entries())
+    .map(([key, item]) => ({ ...item, count: counts.get(key) ?? 0 }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+
+  return { recent, frequent };
+}
@@ -0,0 +1,72 @@
+import type { MealItem, Recipe, RecipeIngredient } from "./schema";
+import { scaleNutrients, type FoodPortion, type NutrientValues } from "./units";
+
+// The derived columns of a recipes row
+export interface RecipeNutrition {
+  totalGrams: number;
+  perServing: NutrientValues;
+}
+
+const nutrientKeys: (keyof NutrientValues)[] = ["calories", "protein", "carbs", "fat", "sugar", "fiber", "sodium"];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Sum every ingredient line at its weight and split the result into servings.
+// Calories and sodium are whole numbers; everything else keeps one decimal place.
+export function computeRecipeNutrition(ingredients: RecipeIngredient[], servings: number): RecipeNutrition {
+  const totals: NutrientValues = { calories: 0, protein: 0, carbs: 0, fat: 0, sugar: 0, fiber: 0, sodium: 0 };
+  let totalGrams = 0;
+
+  for (const line of ingredients) {
+    totalGrams += line.grams;
+    if (!line.nutrients) continue;
+
+    // Ingredient nutrients are per 100 g
+    const factor = line.grams / 100;
+    for (const key of nutrientKeys) {
+      totals[key] += (line.nutrients[key] || 0) * factor;
+    }
+  }
+
+  const divisor = servings > 0 ? servings : 1;
+  return {
+    totalGrams: round1(totalGrams),
+    perServing: {
+      calories: Math.round(totals.calories / divisor),
+      protein: round1(totals.protein / divisor),
+      carbs: round1(totals.carbs / divisor),
+      fat: round1(totals.fat / divisor),
+      sugar: round1(totals.sugar / divisor),
+      fiber: round1(totals.fiber / divisor),
+      sodium: Math.round(totals.sodium / divisor),
+    },
+  };
+}
+
+// A recipe described as a food whose reference amount is one serving
+export function recipePortion(recipe: Recipe): FoodPortion {
+  const servingGrams = recipe.servings > 0 && recipe.totalGrams > 0
+    ? round1(recipe.totalGrams / recipe.servings)
+    : undefined;
+
+  return {
+    nutrients: recipe.perServing as NutrientValues,
+    per: "serving",
+    servingGrams,
+    servingLabel: `1 of ${recipe.servings} serving${recipe.servings === 1 ? "" : "s"}`,
+  };
+}
+
+// A meal item for some number of servings of a recipe, e.g. 0.5 for half a serving
+export function recipeToMealItem(recipe: Recipe, servings = 1): MealItem {
+  const portion = recipePortion(recipe);
+  return {
+    name: recipe.name,
+    ...scaleNutrients(portion, servings, "serving"),
+    amount: servings,
+    unit: "serving",
+    grams: portion.servingGrams ? round1(servings * portion.servingGrams) : undefined,
+    portion,
+    recipeId: recipe.id,
+  };
+}
@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, json, real, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { quantityUnits, foodPortionSchema, nutrientValuesSchema } from "./units";
+import { dateKeySchema, timeZoneSchema, DEFAULT_TIME_ZONE } from "./dates";
+import { parseGtin } from "./gtin";
 
 // User Schema
 export const users = pgTable("users", {
@@ -13,52 +17,101 @@ export const users = pgTable("users", {
   fatGoal: integer("fat_goal").default(65),
   sugarGoal: integer("sugar_goal").default(50),
   workoutGoal: integer("workout_goal").default(45), // minutes
+  timezone: text("timezone").notNull().default(DEFAULT_TIME_ZONE), // IANA zone used to decide which day things happen on
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
-  calorieGoal: true,
-  proteinGoal: true,
-  carbsGoal: true,
-  fatGoal: true,
-  sugarGoal: true,
-  workoutGoal: true,
+export const insertUserSchema = createInsertSchema(users)
+  .pick({
+    username: true,
+    password: true,
+    calorieGoal: true,
+    proteinGoal: true,
+    carbsGoal: true,
+    fatGoal: true,
+    sugarGoal: true,
+    workoutGoal: true,
+    timezone: true,
+  })
+  .extend({
+    timezone: timeZoneSchema.optional(),
+  });
+
+// Profile fields a user may change after registering.
+// Ranges mirror the Settings page's nutrition goals form.
+export const updateUserSchema = insertUserSchema
+  .omit({ username: true, password: true })
+  .extend({
+    calorieGoal: z.number().int().min(500, "Must be at least 500").max(10000, "Must be at most 10000"),
+    proteinGoal: z.number().int().min(10, "Must be at least 10g").max(500, "Must be at most 500g"),
+    carbsGoal: z.number().int().min(10, "Must be at least 10g").max(1000, "Must be at most 1000g"),
+    fatGoal: z.number().int().min(10, "Must be at least 10g").max(500, "Must be at most 500g"),
+    sugarGoal: z.number().int().min(0, "Must be at least 0g").max(200, "Must be at most 200g"),
+    workoutGoal: z.number().int().min(5, "Must be at least 5 minutes").max(300, "Must be at most 300 minutes"),
+    timezone: timeZoneSchema,
+  })
+  .partial()
+  .strict();
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
 });
 
-// Food Item Schema
+// Food Item Schema - custom foods users define for things the FDA doesn't list.
+// Nutrients are per serving.
 export const foodItems = pgTable("food_items", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id"), // null for the built-in sample foods everyone sees
   name: text("name").notNull(),
+  servingGrams: real("serving_grams"), // weight of one serving, when known
   calories: integer("calories").notNull(),
   protein: real("protein").notNull(),
   carbs: real("carbs").notNull(),
   fat: real("fat").notNull(),
   sugar: real("sugar").notNull(),
+  fiber: real("fiber").notNull().default(0),
+  sodium: real("sodium").notNull().default(0), // milligrams
   ingredientQuality: integer("ingredient_quality").notNull(), // 1-4 scale
   qualityNotes: text("quality_notes"),
 });
 
-export const insertFoodItemSchema = createInsertSchema(foodItems).pick({
-  name: true,
-  calories: true,
-  protein: true,
-  carbs: true,
-  fat: true,
-  sugar: true,
-  ingredientQuality: true,
-  qualityNotes: true,
-});
+export const insertFoodItemSchema = createInsertSchema(foodItems)
+  .pick({
+    userId: true,
+    name: true,
+    servingGrams: true,
+    calories: true,
+    protein: true,
+    carbs: true,
+    fat: true,
+    sugar: true,
+    fiber: true,
+    sodium: true,
+    ingredientQuality: true,
+    qualityNotes: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Name is required"),
+    servingGrams: z.number().positive("Serving weight must be positive").nullish(),
+  });
+
+// Custom foods stay with the user who created them
+export const updateFoodItemSchema = insertFoodItemSchema.omit({ userId: true }).partial();
 
 // Meal Schema
 export const meals = pgTable("meals", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   title: text("title").notNull(),
-  date: timestamp("date").notNull().defaultNow(),
+  date: date("date", { mode: "string" }).notNull(), // calendar date in the user's time zone
   time: text("time").notNull(),
   totalCalories: integer("total_calories").notNull(),
   totalProtein: real("total_protein").notNull(),
+  totalCarbs: real("total_carbs").notNull().default(0),
+  totalFat: real("total_fat").notNull().default(0),
+  totalSugar: real("total_sugar").notNull().default(0),
+  totalFiber: real("total_fiber").notNull().default(0),
+  totalSodium: real("total_sodium").notNull().default(0), // milligrams
   items: json("items").notNull(), // Array of food items with quantities
   ingredientQuality: integer("ingredient_quality").notNull(), // 1-4 scale
   qualityNotes: text("quality_notes"),
@@ -72,16 +125,107 @@ export const insertMealSchema = createInsertSchema(meals)
     time: true,
     totalCalories: true,
     totalProtein: true,
+    totalCarbs: true,
+    totalFat: true,
+    totalSugar: true,
+    totalFiber: true,
+    totalSodium: true,
     items: true,
     ingredientQuality: true,
     qualityNotes: true,
   })
   .extend({
-    // Add transform to ensure dates are properly handled 
-    // whether they're strings or Date objects
-    date: z.coerce.date(),
+    date: dateKeySchema,
+  });
+
+// A meal can be edited in place, but never handed to another user
+export const updateMealSchema = insertMealSchema.omit({ userId: true }).partial();
+
+// Meal Template Schema - a saved meal that can be logged again on any day
+export const mealTemplates = pgTable("meal_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  title: text("title").notNull(), // meal title used when logged, e.g. Breakfast
+  totalCalories: integer("total_calories").notNull(),
+  totalProtein: real("total_protein").notNull(),
+  totalCarbs: real("total_carbs").notNull().default(0),
+  totalFat: real("total_fat").notNull().default(0),
+  totalSugar: real("total_sugar").notNull().default(0),
+  totalFiber: real("total_fiber").notNull().default(0),
+  totalSodium: real("total_sodium").notNull().default(0), // milligrams
+  items: json("items").notNull(), // Same shape as meals.items
+  ingredientQuality: integer("ingredient_quality").notNull(), // 1-4 scale
+  qualityNotes: text("quality_notes"),
+});
+
+export const insertMealTemplateSchema = createInsertSchema(mealTemplates)
+  .pick({
+    userId: true,
+    name: true,
+    title: true,
+    totalCalories: true,
+    totalProtein: true,
+    totalCarbs: true,
+    totalFat: true,
+    totalSugar: true,
+    totalFiber: true,
+    totalSodium: true,
+    items: true,
+    ingredientQuality: true,
+    qualityNotes: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Template name is required"),
+  });
+
+export const updateMealTemplateSchema = insertMealTemplateSchema.omit({ userId: true }).partial();
+
+// Logging a template: which day, and optionally what time, the meal was eaten
+export const logMealTemplateSchema = z.object({
+  date: dateKeySchema,
+  time: z.string().min(1).optional(),
+});
+
+// Recipe Schema - ingredients weighed in grams, split into a number of servings
+export const recipes = pgTable("recipes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  servings: real("servings").notNull().default(1),
+  ingredients: json("ingredients").notNull(), // RecipeIngredient[]
+  totalGrams: real("total_grams").notNull(), // computed on the server
+  perServing: json("per_serving").notNull(), // NutrientValues, computed on the server
+});
+
+// One ingredient line. Lines reference an FDA food (fdcId) or one of the
+// user's custom foods (foodItemId); nutrients are per 100 g, and are filled in
+// by the server for custom foods.
+export const recipeIngredientSchema = z
+  .object({
+    name: z.string().min(1, "Ingredient name is required"),
+    fdcId: z.number().int().positive().optional(),
+    foodItemId: z.number().int().positive().optional(),
+    grams: z.number().positive("Weight must be positive"),
+    nutrients: nutrientValuesSchema.optional(),
+  })
+  .refine((line) => line.fdcId !== undefined || line.foodItemId !== undefined, {
+    message: "Ingredients must reference an FDA food or a custom food",
+  });
+
+export const insertRecipeSchema = createInsertSchema(recipes)
+  .pick({
+    userId: true,
+    name: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Recipe name is required"),
+    servings: z.number().positive("Servings must be positive").default(1),
+    ingredients: z.array(recipeIngredientSchema).min(1, "Add at least one ingredient"),
   });
 
+export const updateRecipeSchema = insertRecipeSchema.omit({ userId: true }).partial();
+
 // Exercise Schema
 export const exercises = pgTable("exercises", {
   id: serial("id").primaryKey(),
@@ -107,7 +251,7 @@ export const workouts = pgTable("workouts", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   title: text("title").notNull(),
-  date: timestamp("date").notNull().defaultNow(),
+  date: date("date", { mode: "string" }).notNull(), // calendar date in the user's time zone
   startTime: text("start_time").notNull(),
   endTime: text("end_time").notNull(),
   caloriesBurned: integer("calories_burned").notNull(),
@@ -129,20 +273,23 @@ export const insertWorkoutSchema = createInsertSchema(workouts)
     details: true,
   })
   .extend({
-    // Add transform to ensure dates are properly handled
-    date: z.coerce.date(),
+    date: dateKeySchema,
   });
 
+export const updateWorkoutSchema = insertWorkoutSchema.omit({ userId: true }).partial();
+
 // Progress Schema
 export const dailyProgress = pgTable("daily_progress", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
-  date: timestamp("date").notNull().defaultNow(),
+  date: date("date", { mode: "string" }).notNull(), // calendar date in the user's time zone
   caloriesConsumed: integer("calories_consumed").default(0),
   proteinConsumed: real("protein_consumed").default(0),
   carbsConsumed: real("carbs_consumed").default(0),
   fatConsumed: real("fat_consumed").default(0),
   sugarConsumed: real("sugar_consumed").default(0),
+  fiberConsumed: real("fiber_consumed").default(0),
+  sodiumConsumed: real("sodium_consumed").default(0), // milligrams
   workoutMinutes: real("workout_minutes").default(0), // Using real to support minutes with seconds/milliseconds
   caloriesBurned: integer("calories_burned").default(0),
   rowingMeters: integer("rowing_meters").default(0),
@@ -157,15 +304,27 @@ export const insertDailyProgressSchema = createInsertSchema(dailyProgress)
     carbsConsumed: true,
     fatConsumed: true,
     sugarConsumed: true,
+    fiberConsumed: true,
+    sodiumConsumed: true,
     workoutMinutes: true,
     caloriesBurned: true,
     rowingMeters: true,
   })
   .extend({
-    // Add transform to ensure dates are properly handled
-    date: z.coerce.date(),
+    date: dateKeySchema,
   });
 
+// Repeating a day: copy what was logged on one date onto another
+export const dayCopyKinds = ["meals", "workouts"] as const;
+
+export const copyDaySchema = z
+  .object({
+    from: dateKeySchema,
+    to: dateKeySchema,
+    include: z.array(z.enum(dayCopyKinds)).min(1, "Choose meals, workouts or both").default([...dayCopyKinds]),
+  })
+  .refine((copy) => copy.from !== copy.to, { message: "Pick a different day to copy to", path: ["to"] });
+
 // Suggestions Schema
 export const foodSuggestions = pgTable("food_suggestions", {
   id: serial("id").primaryKey(),
@@ -219,24 +378,167 @@ export const insertWorkoutSuggestionSchema = createInsertSchema(workoutSuggestio
   exercises: true,
 });
 
+// Cached FDA API responses, so repeat searches and lookups skip the network
+export const fdaCache = pgTable("fda_cache", {
+  // "search:<pageSize>:<pageNumber>:<sorted data types>:<normalized brand owner>:<sort>:<normalized query>"
+  // or "food:<fdcId>", prefixed with "<base URL>|" when it isn't USDA's
+  key: text("key").primaryKey(),
+  response: json("response").notNull(),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  hits: integer("hits").notNull().default(0), // lookups served from this entry
+});
+
+export const insertFdaCacheEntrySchema = createInsertSchema(fdaCache).pick({
+  key: true,
+  response: true,
+  expiresAt: true,
+});
+
+// Foods imported from the USDA FoodData Central CSV downloads, for looking foods
+// up without the FDC API. Nutrients are per 100 g, as FDC reports them; any the
+// download has no value for are null.
+export const nutrientFoods = pgTable("nutrient_foods", {
+  fdcId: integer("fdc_id").primaryKey(),
+  dataType: text("data_type").notNull(), // as the API names it: "SR Legacy", "Foundation", "Branded", ...
+  description: text("description").notNull(),
+  foodCategory: text("food_category"),
+  brandOwner: text("brand_owner"),
+  brandName: text("brand_name"),
+  gtinUpc: text("gtin_upc"),
+  ingredients: text("ingredients"),
+  servingSize: real("serving_size"),
+  servingSizeUnit: text("serving_size_unit"),
+  householdServingFullText: text("household_serving_full_text"),
+  calories: real("calories"),
+  protein: real("protein"),
+  carbs: real("carbs"),
+  fat: real("fat"),
+  sugar: real("sugar"),
+  fiber: real("fiber"),
+  sodium: real("sodium"), // mg
+  publicationDate: text("publication_date"),
+}, (table) => [
+  index("nutrient_foods_search_idx").using("gin", nutrientFoodSearchVector(table)),
+  index("nutrient_foods_gtin_upc_idx").on(table.gtinUpc),
+]);
+
+// The text full-text search matches against. Queries must use this same
+// expression for Postgres to use the index.
+export function nutrientFoodSearchVector(table: Record<"description" | "brandOwner" | "brandName", AnyPgColumn>): SQL {
+  return sql`to_tsvector('english', ${table.description} || ' ' || coalesce(${table.brandOwner}, '') || ' ' || coalesce(${table.brandName}, ''))`;
+}
+
+export const insertNutrientFoodSchema = createInsertSchema(nutrientFoods);
+
+// Barcode Product Schema - products users have registered for barcodes FDA
+// doesn't know. Anyone on the deployment can scan or correct them; every
+// version is kept in barcode_product_revisions. Nutrients are per serving, as
+// printed on the label.
+export const barcodeProducts = pgTable("barcode_products", {
+  id: serial("id").primaryKey(),
+  gtin: text("gtin").notNull().unique(), // GTIN-14, see shared/gtin.ts
+  name: text("name").notNull(),
+  brand: text("brand"),
+  ingredients: text("ingredients"),
+  servingSize: real("serving_size").notNull(),
+  servingSizeUnit: text("serving_size_unit").notNull().default("g"), // g or ml
+  householdServing: text("household_serving"), // e.g. "1 pack"
+  calories: integer("calories").notNull(),
+  protein: real("protein").notNull().default(0),
+  carbs: real("carbs").notNull().default(0),
+  fat: real("fat").notNull().default(0),
+  sugar: real("sugar").notNull().default(0),
+  fiber: real("fiber").notNull().default(0),
+  sodium: real("sodium").notNull().default(0), // milligrams
+  revision: integer("revision").notNull().default(1),
+  createdBy: integer("created_by"), // null for built-in products
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const barcodeProductRevisions = pgTable("barcode_product_revisions", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  revision: integer("revision").notNull(),
+  userId: integer("user_id"),
+  label: json("label").notNull(), // the product's BarcodeProductLabel as of this revision
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const barcodeServingUnits = ["g", "ml"] as const;
+
+export const insertBarcodeProductSchema = createInsertSchema(barcodeProducts)
+  .pick({
+    gtin: true,
+    name: true,
+    brand: true,
+    ingredients: true,
+    servingSize: true,
+    servingSizeUnit: true,
+    householdServing: true,
+    calories: true,
+    protein: true,
+    carbs: true,
+    fat: true,
+    sugar: true,
+    fiber: true,
+    sodium: true,
+  })
+  .extend({
+    // Stored as GTIN-14 so every form of the same barcode finds it
+    gtin: z.string().transform((code, ctx) => {
+      const gtin = parseGtin(code);
+      if (!gtin) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid barcode" });
+        return z.NEVER;
+      }
+      return gtin.gtin14;
+    }),
+    name: z.string().trim().min(1, "Product name is required"),
+    servingSize: z.number().positive("Serving size must be positive"),
+    servingSizeUnit: z.enum(barcodeServingUnits).default("g"),
+  });
+
+// The barcode itself can't change; register the other barcode as a new product
+export const updateBarcodeProductSchema = insertBarcodeProductSchema.omit({ gtin: true }).partial();
+
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 
 export type FoodItem = typeof foodItems.$inferSelect;
 export type InsertFoodItem = z.infer<typeof insertFoodItemSchema>;
+export type UpdateFoodItem = z.infer<typeof updateFoodItemSchema>;
 
 export type Meal = typeof meals.$inferSelect;
 export type InsertMeal = z.infer<typeof insertMealSchema>;
+export type UpdateMeal = z.infer<typeof updateMealSchema>;
+
+export type MealTemplate = typeof mealTemplates.$inferSelect;
+export type InsertMealTemplate = z.infer<typeof insertMealTemplateSchema>;
+export type UpdateMealTemplate = z.infer<typeof updateMealTemplateSchema>;
+export type LogMealTemplate = z.infer<typeof logMealTemplateSchema>;
+
+export type Recipe = typeof recipes.$inferSelect;
+export type RecipeIngredient = z.infer<typeof recipeIngredientSchema>;
+export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
+export type UpdateRecipe = z.infer<typeof updateRecipeSchema>;
 
 export type Exercise = typeof exercises.$inferSelect;
 export type InsertExercise = z.infer<typeof insertExerciseSchema>;
 
 export type Workout = typeof workouts.$inferSelect;
 export type InsertWorkout = z.infer<typeof insertWorkoutSchema>;
+export type UpdateWorkout = z.infer<typeof updateWorkoutSchema>;
 
 export type DailyProgress = typeof dailyProgress.$inferSelect;
 export type InsertDailyProgress = z.infer<typeof insertDailyProgressSchema>;
+export type DayCopyKind = (typeof dayCopyKinds)[number];
+export type CopyDay = z.infer<typeof copyDaySchema>;
+// What a day copy created
+export type CopiedDay = { meals: Meal[]; workouts: Workout[] };
 
 export type FoodSuggestion = typeof foodSuggestions.$inferSelect;
 export type InsertFoodSuggestion = z.infer<typeof insertFoodSuggestionSchema>;
@@ -244,12 +546,34 @@ export type InsertFoodSuggestion = z.infer<typeof insertFoodSuggestionSchema>;
 export type WorkoutSuggestion = typeof workoutSuggestions.$inferSelect;
 export type InsertWorkoutSuggestion = z.infer<typeof insertWorkoutSuggestionSchema>;
 
+export type BarcodeProduct = typeof barcodeProducts.$inferSelect;
+export type InsertBarcodeProduct = z.infer<typeof insertBarcodeProductSchema>;
+export type UpdateBarcodeProduct = z.infer<typeof updateBarcodeProductSchema>;
+// Everything a revision records: what the label says
+export type BarcodeProductLabel = Omit<InsertBarcodeProduct, "gtin">;
+export type BarcodeProductRevision = typeof barcodeProductRevisions.$inferSelect;
+
+export type NutrientFood = typeof nutrientFoods.$inferSelect;
+export type InsertNutrientFood = z.infer<typeof insertNutrientFoodSchema>;
+
+export type FdaCacheEntry = typeof fdaCache.$inferSelect;
+export type InsertFdaCacheEntry = z.infer<typeof insertFdaCacheEntrySchema>;
+
 // Additional zod schemas for form validation
 export const mealItemSchema = z.object({
   name: z.string(),
   calories: z.number(),
   protein: z.number().optional(),
+  carbs: z.number().optional(),
+  fat: z.number().optional(),
+  sugar: z.number().optional(),
+  fiber: z.number().optional(),
+  sodium: z.number().optional(), // milligrams
   amount: z.number().optional(),
+  unit: z.enum(quantityUnits).optional(),
+  grams: z.number().optional(), // weight the nutrients above were scaled to
+  portion: foodPortionSchema.optional(), // reference nutrients the item was scaled from
+  recipeId: z.number().optional(), // set when the item is servings of a saved recipe
 });
 
 export const workoutDetailsSchema = z.object({
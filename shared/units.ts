@@ -0,0 +1,166 @@
+import { z } from "zod";
+
+// Units a meal item's quantity can be entered in
+export const quantityUnits = ["g", "oz", "cup", "serving"] as const;
+export type QuantityUnit = (typeof quantityUnits)[number];
+
+export const quantityUnitLabels: Record<QuantityUnit, string> = {
+  g: "g",
+  oz: "oz",
+  cup: "cup",
+  serving: "serving",
+};
+
+export const GRAMS_PER_OUNCE = 28.3495;
+const MILLILITRES_PER_CUP = 236.588;
+
+export const nutrientValuesSchema = z.object({
+  calories: z.number(),
+  protein: z.number(),
+  carbs: z.number(),
+  fat: z.number(),
+  sugar: z.number(),
+  fiber: z.number(),
+  sodium: z.number(), // milligrams
+});
+
+// The reference amount a food's nutrients were reported for, plus what its
+// household measures weigh. FDA search and food detail data is per 100 g;
+// label data (and our own fallbacks) can be per serving.
+export const foodPortionSchema = z.object({
+  nutrients: nutrientValuesSchema,
+  per: z.enum(["100g", "serving"]),
+  servingGrams: z.number().positive().optional(),
+  servingLabel: z.string().optional(),
+  cupGrams: z.number().positive().optional(),
+});
+
+export type NutrientValues = z.infer<typeof nutrientValuesSchema>;
+export type FoodPortion = z.infer<typeof foodPortionSchema>;
+
+// Convert an FDA servingSize/servingSizeUnit pair to grams.
+// Millilitres are treated as grams, which is close enough for most drinks.
+export function servingSizeToGrams(size: number | undefined, unit: string | undefined): number | undefined {
+  if (!size || size <= 0) return undefined;
+
+  switch ((unit || "g").toLowerCase()) {
+    case "g":
+    case "grm":
+    case "gram":
+    case "grams":
+    case "ml":
+    case "mlt":
+      return size;
+    case "oz":
+    case "onz":
+      return size * GRAMS_PER_OUNCE;
+    default:
+      return undefined;
+  }
+}
+
+// Work out what a cup weighs from a household serving such as "1 cup",
+// "1/2 cup" or "0.75 CUP". Liquids measured in ml fall back to volume.
+export function parseCupGrams(
+  householdServing: string | undefined,
+  servingGrams: number | undefined,
+  servingSizeUnit?: string,
+): number | undefined {
+  const match = householdServing?.toLowerCase().match(/^\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+)\s*cups?\b/);
+  if (match && servingGrams) {
+    const cups = parseQuantity(match[1]);
+    if (cups > 0) return servingGrams / cups;
+  }
+
+  const unit = servingSizeUnit?.toLowerCase();
+  if (unit === "ml" || unit === "mlt") {
+    return MILLILITRES_PER_CUP;
+  }
+
+  return undefined;
+}
+
+function parseQuantity(text: string): number {
+  const [whole, fraction] = text.trim().includes(" ") ? text.trim().split(/\s+/) : ["0", text.trim()];
+  const parseOne = (part: string) => {
+    if (part.includes("/")) {
+      const [num, den] = part.split("/").map(Number);
+      return den ? num / den : 0;
+    }
+    return Number(part) || 0;
+  };
+  return parseOne(whole) + parseOne(fraction);
+}
+
+// A custom food as a portion: its nutrients are per serving, and a serving
+// weight (when the user gave one) lets it be weighed in grams too
+export function foodItemPortion(food: NutrientValues & { servingGrams?: number | null }): FoodPortion {
+  const { calories, protein, carbs, fat, sugar, fiber, sodium } = food;
+  return {
+    nutrients: { calories, protein, carbs, fat, sugar, fiber, sodium },
+    per: "serving",
+    servingGrams: food.servingGrams ?? undefined,
+  };
+}
+
+// Units that can be resolved for this food
+export function availableUnits(portion: FoodPortion): QuantityUnit[] {
+  if (portion.per === "serving" && !portion.servingGrams) {
+    // Without a serving weight there is nothing to convert grams against
+    return ["serving"];
+  }
+
+  const units: QuantityUnit[] = ["g", "oz"];
+  if (portion.cupGrams) units.push("cup");
+  if (portion.servingGrams || portion.per === "serving") units.push("serving");
+  return units;
+}
+
+// A sensible starting quantity: one serving if the food has one, otherwise 100 g
+export function defaultQuantity(portion: FoodPortion): { amount: number; unit: QuantityUnit } {
+  if (portion.servingGrams || portion.per === "serving") {
+    return { amount: 1, unit: "serving" };
+  }
+  return { amount: 100, unit: "g" };
+}
+
+// Weight in grams of a quantity, or undefined when the unit can't be resolved
+export function quantityToGrams(amount: number, unit: QuantityUnit, portion: FoodPortion): number | undefined {
+  switch (unit) {
+    case "g":
+      return amount;
+    case "oz":
+      return amount * GRAMS_PER_OUNCE;
+    case "cup":
+      return portion.cupGrams ? amount * portion.cupGrams : undefined;
+    case "serving":
+      return portion.servingGrams ? amount * portion.servingGrams : undefined;
+  }
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Scale a food's nutrients to the given quantity. Calories and sodium are whole
+// numbers; everything else keeps one decimal place.
+export function scaleNutrients(portion: FoodPortion, amount: number, unit: QuantityUnit): NutrientValues {
+  let factor: number;
+
+  if (portion.per === "serving" && unit === "serving") {
+    factor = amount;
+  } else {
+    const grams = quantityToGrams(amount, unit, portion) ?? 0;
+    const referenceGrams = portion.per === "100g" ? 100 : portion.servingGrams;
+    factor = referenceGrams ? grams / referenceGrams : 0;
+  }
+
+  const { nutrients } = portion;
+  return {
+    calories: Math.round(nutrients.calories * factor),
+    protein: round1(nutrients.protein * factor),
+    carbs: round1(nutrients.carbs * factor),
+    fat: round1(nutrients.fat * factor),
+    sugar: round1(nutrients.sugar * factor),
+    fiber: round1(nutrients.fiber * factor),
+    sodium: Math.round(nutrients.sodium * factor),
+  };
+}